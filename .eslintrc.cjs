@@ -13,5 +13,14 @@ module.exports = {
   ],
   rules: {
     '@typescript-eslint/semi': ['error', 'always']
-  }
+  },
+  overrides: [
+    {
+      // node:test's describe/it return promises the runner awaits itself.
+      files: ['src/**/*.test.ts'],
+      rules: {
+        '@typescript-eslint/no-floating-promises': 'off'
+      }
+    }
+  ]
 };
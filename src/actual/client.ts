@@ -1,38 +1,260 @@
 import { randomUUID } from 'node:crypto';
 import { mkdir } from 'node:fs/promises';
 import {
+  type AccountForecast,
   type BalanceEntry,
+  type BudgetBalanceChange,
+  type BudgetCategory,
+  type BudgetCategoryGroup,
+  type BudgetMonth,
+  type BudgetMove,
+  type BudgetMoveResult,
+  type BudgetReview,
+  type BudgetReviewCategory,
+  type BulkUpdatePreview,
+  type BulkUpdateResult,
+  type CashFlowForecast,
+  type CategoryGroupRollup,
+  type CategoryRollup,
   type CategorySpending,
-  type MonthlySummary
+  type CategorySpendingTrend,
+  type ChangeEntityType,
+  type ChangeJournalEntry,
+  type DuplicateCandidate,
+  type DuplicateGroup,
+  type DuplicateResolution,
+  type EntityType,
+  type ForecastEvent,
+  type ImportResult,
+  type InverseOperation,
+  type MonthlySummary,
+  type NameLookup,
+  type ReconciliationResult,
+  type SplitInfo,
+  type NetWorthHistory,
+  type PayeeSpending,
+  type ReportScope,
+  type ScheduleUpdate,
+  type NetWorthInterval,
+  type NetWorthTotals,
+  type SpendingTrendRow,
+  type SpendingTrends,
+  type SplitLine,
+  type SplitLineInput,
+  type StatementTransaction,
+  type TagSpending,
+  type TagSummary,
+  type TransactionSearchHit,
+  type TransactionNames,
+  type TransferInfo,
+  type TransferResult,
+  type UndoResult,
+  type UpcomingBill
 } from './types.js';
 import api from '@actual-app/api';
 import {
   type APIAccountEntity,
   type APICategoryEntity,
   type APICategoryGroupEntity,
-  type APIPayeeEntity
+  type APIPayeeEntity,
+  type APIScheduleEntity
 } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
 import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
 import { type RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+import { type RecurConfig } from '@actual-app/api/@types/loot-core/src/types/models/schedule.js';
+import { type ReconcileTransactionsResult } from '@actual-app/api/@types/loot-core/src/server/accounts/sync.js';
 import { logger } from '../logger.js';
+import { type DateRange, daysBetween, getLastFullMonthRange, today } from './dates.js';
+import { byKeepPreference, scoreDuplicatePair } from './duplicates.js';
+import { describeAmount, formatAmount } from './format.js';
+import { summarizePayeeSpending, withoutInternalTransfers } from './reports.js';
+import { scheduleFields } from './schedules.js';
+import { scoreSearchMatch } from './search.js';
 
-const getLastFullMonthRange = (): { startDate: string, endDate: string, label: string, daysInMonth: number } => {
-  const now = new Date();
-  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
-  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+const toDate = (d: Date): string => `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}-${String(d.getUTCDate()).padStart(2, '0')}`;
 
-  const toDate = (d: Date): string => `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}-${String(d.getUTCDate()).padStart(2, '0')}`;
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDate(d);
+};
+
+// getAccountBalance counts transactions through the server-local day of its cutoff; local noon pins that day to the given date.
+const balanceCutoff = (date: string): Date => new Date(`${date}T12:00:00`);
+
+const endOfMonth = (date: string): string => toDate(new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)), 0)));
+
+// Weeks end on Sunday.
+const endOfWeek = (date: string): string => addDays(date, (7 - new Date(`${date}T00:00:00Z`).getUTCDay()) % 7);
+
+// Period-end dates between startDate and endDate; the last period is cut short at endDate.
+const periodEnds = (startDate: string, endDate: string, interval: NetWorthInterval): string[] => {
+  const ends: string[] = [];
+  let cursor = startDate;
+  while (true) {
+    const end = interval === 'month' ? endOfMonth(cursor) : endOfWeek(cursor);
+    if (end >= endDate) break;
+    ends.push(end);
+    cursor = addDays(end, 1);
+  }
+  ends.push(endDate);
+  return ends;
+};
+
+// Positive balances are assets and negative balances are liabilities, reported as the amount owed.
+const netWorthTotals = (balances: number[]): NetWorthTotals => {
+  const assets = balances.filter(b => b > 0).reduce((sum, b) => sum + b, 0);
+  const liabilities = -balances.filter(b => b < 0).reduce((sum, b) => sum + b, 0);
+  return { assets, liabilities, netWorth: assets - liabilities };
+};
+
+// Range schedules (isbetween) are projected at their midpoint.
+const scheduleAmount = (amount: APIScheduleEntity['amount']): number => {
+  if (amount === undefined) return 0;
+  if (typeof amount === 'number') return amount;
+  return Math.round((amount.num1 + amount.num2) / 2);
+};
+
+const accumulateBalances = (starting: number, entries: Array<{ date: string, amount: number }>): BalanceEntry[] => {
+  const balances: BalanceEntry[] = [];
+  let running = starting;
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    running += entry.amount;
+    balances.push({ date: entry.date, balance: running });
+  }
+  return balances;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+};
+
+// Typical cadences (in days) accepted when detecting recurring income and expenses, with tolerance.
+const RECURRING_CADENCES = [
+  { days: 7, tolerance: 1 },
+  { days: 14, tolerance: 2 },
+  { days: 30, tolerance: 4 }
+];
+
+const toNumber = (value: unknown): number => {
+  const num = Number(value ?? 0);
+  return Number.isFinite(num) ? num : 0;
+};
+
+const toBudgetCategoryGroup = (raw: Record<string, unknown>): BudgetCategoryGroup => {
+  const categories = Array.isArray(raw.categories) ? raw.categories as Array<Record<string, unknown>> : [];
   return {
-    startDate: toDate(start),
-    endDate: toDate(end),
-    label: `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`,
-    daysInMonth: end.getUTCDate()
+    id: String(raw.id),
+    name: String(raw.name),
+    isIncome: raw.is_income === true,
+    hidden: raw.hidden === true,
+    budgeted: toNumber(raw.budgeted),
+    spent: toNumber(raw.spent),
+    balance: toNumber(raw.balance),
+    received: toNumber(raw.received),
+    categories: categories.map(cat => ({
+      id: String(cat.id),
+      name: String(cat.name),
+      isIncome: cat.is_income === true,
+      hidden: cat.hidden === true,
+      budgeted: toNumber(cat.budgeted),
+      spent: toNumber(cat.spent),
+      balance: toNumber(cat.balance),
+      carryover: cat.carryover === true || cat.carryover === 1,
+      received: toNumber(cat.received)
+    }))
   };
 };
 
+const findBudgetCategory = (budget: BudgetMonth, categoryId: string): BudgetCategory => {
+  for (const group of budget.categoryGroups) {
+    const cat = group.categories.find(c => c.id === categoryId);
+    if (cat !== undefined) return cat;
+  }
+  throw new Error(`Category ${categoryId} not found in budget ${budget.month}`);
+};
+
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, mon] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, mon - 1 + delta, 1));
+  return `${shifted.getUTCFullYear()}-${String(shifted.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+
+/**
+ * Builds one trend row from spending per month. history holds the earlier months too, so the first
+ * shown month still gets month-over-month, year-over-year and rolling-average values.
+ */
+const buildTrendRow = (id: string, name: string, shown: string[], history: Map<string, number>, window: number): SpendingTrendRow => {
+  const spentIn = (month: string): number => history.get(month) ?? 0;
+  const months = shown.map(month => {
+    const spent = spentIn(month);
+    const previous = spentIn(shiftMonth(month, -1));
+    const lastYear = spentIn(shiftMonth(month, -12));
+    const windowMonths = Array.from({ length: window }, (_, i) => shiftMonth(month, -i));
+    return {
+      month,
+      spent,
+      momChange: spent - previous,
+      momChangePct: percentChange(spent, previous),
+      yoyChange: spent - lastYear,
+      yoyChangePct: percentChange(spent, lastYear),
+      rollingAverage: Math.round(windowMonths.reduce((sum, m) => sum + spentIn(m), 0) / window)
+    };
+  });
+  const total = months.reduce((sum, cell) => sum + cell.spent, 0);
+  return { id, name, total, average: Math.round(total / shown.length), months };
+};
+
+// How many earlier months the budget review inspects for repeated overspending.
+const OVERSPENT_LOOKBACK_MONTHS = 5;
+
+// Bounds used when a query needs every transaction up to or from a date.
+const EARLIEST_DATE = '1900-01-01';
+const LATEST_DATE = '9999-12-31';
+
+// Journal key for one category's budget in one month.
+const budgetKey = (month: string, categoryId: string): string => `${month}:${categoryId}`;
+
+// Transaction fields a statement import may change on an existing transaction it matches.
+const IMPORT_MATCH_FIELDS = ['date', 'payee', 'category', 'notes', 'imported_id', 'imported_payee', 'cleared'] as const;
+
+// Same tag syntax as Actual's hasTags rule op: "#" followed by anything up to whitespace or the next "#".
+const extractTags = (notes: string | null | undefined): string[] =>
+  [...new Set([...(notes ?? '').matchAll(/#([^\s#]+)/g)].map(match => match[1].toLowerCase()))];
+
+/**
+ * One entry per amount-bearing line: split children carry their own tags plus the parent's,
+ * so a tag on a split parent covers every line and a tag on one child covers only that line.
+ */
+const taggedLines = (txns: TransactionEntity[]): Array<{ date: string, amount: number, category: string | null, tags: string[] }> =>
+  txns.flatMap(txn => {
+    const parentTags = extractTags(txn.notes);
+    const children = txn.subtransactions ?? [];
+    if (children.length === 0) return [{ date: txn.date, amount: txn.amount, category: txn.category ?? null, tags: parentTags }];
+    return children.map(child => ({
+      date: txn.date,
+      amount: child.amount,
+      category: child.category ?? null,
+      tags: [...new Set([...parentTags, ...extractTags(child.notes)])]
+    }));
+  }).filter(line => line.tags.length > 0);
+
+// Oldest journal entries are dropped beyond this; the journal lives in memory only.
+const JOURNAL_LIMIT = 200;
+
+// How long resolved account/payee/category names are reused; writes through this client clear it sooner.
+const NAME_LOOKUP_TTL_MS = 60_000;
+
 export class ActualClient {
   private ready: Promise<void>;
   private shutdownPromise?: Promise<void>;
+  private readonly journal: ChangeJournalEntry[] = [];
+  private nameLookup: { loadedAt: number, lookup: Promise<NameLookup> } | null = null;
   private readonly initConfig: {
     serverURL: string
     password: string
@@ -99,11 +321,324 @@ export class ActualClient {
     await this.shutdownPromise;
   }
 
+  private recordChange (change: {
+    action: string
+    entityType: ChangeEntityType
+    entityIds: string[]
+    summary: string
+    before: unknown
+    after: unknown
+    inverse: InverseOperation
+  }): void {
+    this.journal.push({ id: randomUUID(), timestamp: new Date().toISOString(), undoneAt: null, ...change });
+    this.nameLookup = null;
+    if (this.journal.length > JOURNAL_LIMIT) this.journal.shift();
+  }
+
+  listRecentChanges (includeUndone: boolean): ChangeJournalEntry[] {
+    return [...this.journal].reverse().filter(entry => includeUndone || entry.undoneAt === null);
+  }
+
+  async undoChange (changeId: string, force: boolean, dryRun = false): Promise<UndoResult> {
+    await this.ensureReady();
+    const index = this.journal.findIndex(entry => entry.id === changeId);
+    if (index === -1) throw new Error(`Change ${changeId} not found in the journal`);
+    const entry = this.journal[index];
+    if (entry.undoneAt !== null) throw new Error(`Change ${changeId} was already undone at ${entry.undoneAt}`);
+    const later = this.journal.slice(index + 1)
+      .find(other => other.undoneAt === null && other.entityIds.some(id => entry.entityIds.includes(id)));
+    if (later !== undefined && !force) {
+      throw new Error(`Change ${later.id} (${later.action}) later modified the same ${entry.entityType}; undo it first or pass force`);
+    }
+    if (dryRun) {
+      return { applied: false, changeId, action: entry.action, undone: entry.summary, restoredIds: [] };
+    }
+    const restoredIds = await this.applyInverse(entry.inverse);
+    this.nameLookup = null;
+    entry.undoneAt = new Date().toISOString();
+    return { applied: true, changeId, action: entry.action, undone: entry.summary, restoredIds };
+  }
+
+  // Returns the IDs of recreated entities, which differ from the deleted originals.
+  private async applyInverse (inverse: InverseOperation): Promise<string[]> {
+    switch (inverse.type) {
+      case 'delete-transactions':
+        for (const id of inverse.transactionIds) await api.deleteTransaction(id);
+        return [];
+      case 'restore-transactions': {
+        const ids: string[] = [];
+        for (const txn of inverse.transactions) ids.push(await this.restoreTransaction(txn));
+        return ids;
+      }
+      case 'update-transactions':
+        // null clears a field that was empty before the change.
+        for (const update of inverse.updates) await api.updateTransaction(update.transactionId, update.fields as Partial<TransactionEntity>);
+        return [];
+      case 'restore-splits':
+        await this.writeSplitLines(await this.findTransaction(inverse.transactionId), inverse.splits, inverse.amount);
+        return [];
+      case 'delete-category':
+        await api.deleteCategory(inverse.categoryId);
+        return [];
+      case 'update-category':
+        await api.updateCategory(inverse.categoryId, { name: inverse.name, group_id: inverse.groupId } as unknown as Partial<APICategoryEntity>);
+        return [];
+      case 'restore-category':
+        return [await this.restoreCategory(inverse.groupId, inverse.category)];
+      case 'delete-category-group':
+        await api.deleteCategoryGroup(inverse.groupId);
+        return [];
+      case 'update-category-group':
+        await api.updateCategoryGroup(inverse.groupId, { name: inverse.name });
+        return [];
+      case 'restore-category-group': {
+        const groupId = await api.createCategoryGroup({ name: inverse.name, is_income: inverse.is_income, hidden: inverse.hidden });
+        const ids = [groupId];
+        for (const category of inverse.categories) ids.push(await this.restoreCategory(groupId, category));
+        return ids;
+      }
+      case 'delete-payee':
+        await api.deletePayee(inverse.payeeId);
+        return [];
+      case 'update-payee':
+        await api.updatePayee(inverse.payeeId, { name: inverse.name, transfer_acct: inverse.transferAccountId ?? undefined });
+        return [];
+      case 'restore-payee': {
+        const payeeId = await api.createPayee({ name: inverse.name });
+        for (const id of inverse.transactionIds) await api.updateTransaction(id, { payee: payeeId });
+        return [payeeId];
+      }
+      case 'delete-rule':
+        await api.deleteRule(inverse.ruleId);
+        return [];
+      case 'update-rule':
+        await api.updateRule(inverse.rule);
+        return [];
+      case 'restore-rule':
+        return [(await api.createRule(inverse.rule)).id];
+      case 'delete-account':
+        await api.deleteAccount(inverse.accountId);
+        return [];
+      case 'update-account':
+        await api.updateAccount(inverse.accountId, { name: inverse.name, offbudget: inverse.offbudget });
+        return [];
+      case 'reopen-account':
+        await api.reopenAccount(inverse.accountId);
+        // Deleting the closing transfer also deletes its counterpart in the other account.
+        for (const id of inverse.transactionIds) await api.deleteTransaction(id);
+        return [];
+      case 'close-account':
+        await api.closeAccount(inverse.accountId);
+        return [];
+      case 'restore-account': {
+        const accountId = await api.createAccount({ name: inverse.name, offbudget: inverse.offbudget, closed: false });
+        const ids = [accountId];
+        for (const txn of inverse.transactions) ids.push(await this.restoreTransaction({ ...txn, account: accountId }));
+        // Restored transfers get new counterparts, so the unlinked copies left behind by the deletion go.
+        for (const id of inverse.unlinkedTransactionIds) await api.deleteTransaction(id);
+        if (inverse.closed) await api.closeAccount(accountId);
+        return ids;
+      }
+      case 'set-budget-amounts':
+        for (const { categoryId, amount } of inverse.amounts) await api.setBudgetAmount(inverse.month, categoryId, amount);
+        return [];
+      case 'set-budget-carryover':
+        await api.setBudgetCarryover(inverse.month, inverse.categoryId, inverse.enabled);
+        return [];
+      case 'delete-schedule':
+        await api.deleteSchedule(inverse.scheduleId);
+        return [];
+      case 'update-schedule':
+        await api.updateSchedule(inverse.scheduleId, inverse.fields);
+        return [];
+      case 'restore-schedule':
+        return [await api.createSchedule(inverse.schedule)];
+      case 'set-schedule-next-date':
+        // next_date is system-managed in the public API; the internal handler writes it as given.
+        await api.internal.send('schedule/update', { schedule: { id: inverse.scheduleId, next_date: inverse.nextDate } });
+        return [];
+      case 'sequence': {
+        const ids: string[] = [];
+        for (const operation of inverse.operations) ids.push(...await this.applyInverse(operation));
+        return ids;
+      }
+    }
+  }
+
+  private async restoreTransaction (txn: TransactionEntity): Promise<string> {
+    // Deleted rows stay tombstoned, so the transaction comes back under a new ID; a temporary imported_id finds it again.
+    const marker = randomUUID();
+    await api.addTransactions(txn.account, [{
+      date: txn.date,
+      amount: txn.amount,
+      payee: txn.payee ?? undefined,
+      category: txn.category ?? undefined,
+      notes: txn.notes ?? undefined,
+      imported_id: marker,
+      imported_payee: txn.imported_payee ?? undefined,
+      cleared: txn.cleared,
+      subtransactions: txn.subtransactions?.map(child => ({
+        amount: child.amount,
+        payee: child.payee ?? undefined,
+        category: child.category ?? undefined,
+        notes: child.notes ?? undefined
+      }))
+    }], { runTransfers: true });
+    const restored = (await api.getTransactions(txn.account, txn.date, txn.date)).find(t => t.imported_id === marker);
+    if (restored === undefined) throw new Error(`Restored transaction from ${txn.date} not found in account ${txn.account}`);
+    // Put back the original imported_id (or none), so later imports dedupe against it, and the reconciled flag.
+    await this.applyInverse({
+      type: 'update-transactions',
+      updates: [{ transactionId: restored.id, fields: { imported_id: txn.imported_id ?? null, reconciled: txn.reconciled === true } }]
+    });
+    return restored.id;
+  }
+
+  private async restoreCategory (groupId: string, category: { name: string, is_income: boolean, hidden: boolean, transactionIds: string[] }): Promise<string> {
+    const categoryId = await api.createCategory({ name: category.name, group_id: groupId, is_income: category.is_income, hidden: category.hidden });
+    for (const id of category.transactionIds) await api.updateTransaction(id, { category: categoryId });
+    return categoryId;
+  }
+
+  /**
+   * Current state of one entity, for dry-run previews. Throws when the ID does not resolve.
+   */
+  async describeEntity (entityType: EntityType, id: string): Promise<object> {
+    await this.ensureReady();
+    switch (entityType) {
+      case 'account':
+        return await this.findAccount(id);
+      case 'transaction':
+        return await this.findTransaction(id);
+      case 'category':
+        return await this.findCategory(id);
+      case 'category-group':
+        return await this.findCategoryGroup(id);
+      case 'payee':
+        return await this.findPayee(id);
+      case 'rule':
+        return await this.findRule(id);
+      case 'schedule':
+        return await this.findSchedule(id);
+    }
+  }
+
+  private async transactionIdsWhere (filter: Record<string, string>): Promise<string[]> {
+    const query = api.q('transactions').filter(filter).select(['id']).options({ splits: 'all' });
+    const { data } = await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0]) as { data: Array<{ id: string }> };
+    return data.map(row => row.id);
+  }
+
   async getAccounts (): Promise<APIAccountEntity[]> {
     await this.ensureReady();
     return await api.getAccounts();
   }
 
+  private async findAccount (accountId: string): Promise<APIAccountEntity> {
+    const account = (await api.getAccounts()).find(a => a.id === accountId);
+    if (account === undefined) throw new Error(`Account ${accountId} not found`);
+    return account;
+  }
+
+  async createAccount (input: { name: string, offbudget?: boolean | null, initialBalance?: number | null }): Promise<string> {
+    await this.ensureReady();
+    const accountId = await api.createAccount({
+      name: input.name,
+      offbudget: input.offbudget ?? false,
+      closed: false
+    }, input.initialBalance ?? undefined);
+    this.recordChange({
+      action: 'create-account',
+      entityType: 'account',
+      entityIds: [accountId],
+      summary: `Created account "${input.name}"`,
+      before: null,
+      after: { id: accountId, name: input.name, offbudget: input.offbudget ?? false, initialBalance: input.initialBalance ?? 0 },
+      inverse: { type: 'delete-account', accountId }
+    });
+    return accountId;
+  }
+
+  async updateAccount (accountId: string, update: { newName?: string | null, offbudget?: boolean | null }): Promise<boolean> {
+    await this.ensureReady();
+    const fields: Partial<APIAccountEntity> = {};
+    if (update.newName !== undefined && update.newName !== null) fields.name = update.newName;
+    if (update.offbudget !== undefined && update.offbudget !== null) fields.offbudget = update.offbudget;
+    const before = await this.findAccount(accountId);
+    await api.updateAccount(accountId, fields);
+    this.recordChange({
+      action: 'update-account',
+      entityType: 'account',
+      entityIds: [accountId],
+      summary: `Updated ${Object.keys(fields).join(', ')} of account "${before.name}"`,
+      before,
+      after: { ...before, ...fields },
+      inverse: { type: 'update-account', accountId, name: before.name, offbudget: before.offbudget === true }
+    });
+    return true;
+  }
+
+  async closeAccount (accountId: string, transfer?: { transferAccountId?: string | null, transferCategoryId?: string | null }): Promise<boolean> {
+    await this.ensureReady();
+    const before = await this.findAccount(accountId);
+    const existingIds = new Set((await api.getTransactions(accountId, EARLIEST_DATE, LATEST_DATE)).map(t => t.id));
+    await api.closeAccount(accountId, transfer?.transferAccountId ?? undefined, transfer?.transferCategoryId ?? undefined);
+    // Actual deletes an account without transactions instead of closing it.
+    const after = (await api.getAccounts()).find(a => a.id === accountId) ?? null;
+    const closingIds = after !== null
+      ? (await api.getTransactions(accountId, EARLIEST_DATE, LATEST_DATE)).filter(t => !existingIds.has(t.id)).map(t => t.id)
+      : [];
+    this.recordChange({
+      action: 'close-account',
+      entityType: 'account',
+      entityIds: [accountId, ...closingIds],
+      summary: after !== null ? `Closed account "${before.name}"` : `Closed and removed empty account "${before.name}"`,
+      before,
+      after,
+      inverse: after !== null
+        ? { type: 'reopen-account', accountId, transactionIds: closingIds }
+        : { type: 'restore-account', name: before.name, offbudget: before.offbudget === true, closed: false, transactions: [], unlinkedTransactionIds: [] }
+    });
+    return true;
+  }
+
+  async reopenAccount (accountId: string): Promise<boolean> {
+    await this.ensureReady();
+    const before = await this.findAccount(accountId);
+    await api.reopenAccount(accountId);
+    this.recordChange({
+      action: 'reopen-account',
+      entityType: 'account',
+      entityIds: [accountId],
+      summary: `Reopened account "${before.name}"`,
+      before,
+      after: { ...before, closed: false },
+      inverse: { type: 'close-account', accountId }
+    });
+    return true;
+  }
+
+  async deleteAccount (accountId: string): Promise<boolean> {
+    await this.ensureReady();
+    const before = await this.findAccount(accountId);
+    const transactions = await api.getTransactions(accountId, EARLIEST_DATE, LATEST_DATE);
+    await api.deleteAccount(accountId);
+    // Actual unlinks the other side of each transfer and keeps it as a plain transaction.
+    const unlinkedTransactionIds = transactions
+      .flatMap(txn => [txn, ...(txn.subtransactions ?? [])])
+      .flatMap(txn => txn.transfer_id != null ? [txn.transfer_id] : []);
+    this.recordChange({
+      action: 'delete-account',
+      entityType: 'account',
+      entityIds: [accountId, ...transactions.map(t => t.id)],
+      summary: `Deleted account "${before.name}" with ${transactions.length} transactions`,
+      before,
+      after: null,
+      inverse: { type: 'restore-account', name: before.name, offbudget: before.offbudget === true, closed: before.closed === true, transactions, unlinkedTransactionIds }
+    });
+    return true;
+  }
+
   async getTransactions (filters: {
     accountId?: string | null
     accountIds?: string[] | null
@@ -132,12 +667,239 @@ export class ActualClient {
     return batches.flat().filter(txn => {
       if (filters.minAmount !== undefined && filters.minAmount !== null && txn.amount < filters.minAmount) return false;
       if (filters.maxAmount !== undefined && filters.maxAmount !== null && txn.amount > filters.maxAmount) return false;
-      if (filters.categoryId !== undefined && filters.categoryId !== null && filters.categoryId !== '' && txn.category !== filters.categoryId) return false;
+      if (filters.categoryId !== undefined && filters.categoryId !== null && filters.categoryId !== '' && txn.category !== filters.categoryId &&
+        !(txn.subtransactions ?? []).some(child => child.category === filters.categoryId)) return false;
       if (filters.payeeId !== undefined && filters.payeeId !== null && filters.payeeId !== '' && txn.payee !== filters.payeeId) return false;
       return true;
     });
   }
 
+  async searchTransactions (input: {
+    query: string
+    startDate?: string | null
+    endDate?: string | null
+    accountIds?: string[] | null
+  }): Promise<TransactionSearchHit[]> {
+    await this.ensureReady();
+    const [txns, accounts, payees, categories] = await Promise.all([
+      this.getTransactions({
+        accountIds: input.accountIds,
+        startDate: input.startDate ?? EARLIEST_DATE,
+        endDate: input.endDate ?? today()
+      }),
+      api.getAccounts(),
+      api.getPayees(),
+      api.getCategories()
+    ]);
+    const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+    const payeeNames = new Map(payees.map(p => [p.id, p.name]));
+    const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+
+    const hits: TransactionSearchHit[] = [];
+    for (const txn of txns) {
+      const children = txn.subtransactions ?? [];
+      const { score, matchedFields } = scoreSearchMatch(input.query, [
+        { name: 'payee', text: txn.payee != null ? payeeNames.get(txn.payee) : null, weight: 1 },
+        { name: 'importedPayee', text: txn.imported_payee, weight: 1 },
+        { name: 'notes', text: [txn.notes, ...children.map(c => c.notes)].filter(Boolean).join(' '), weight: 0.9 },
+        {
+          name: 'category',
+          text: [txn.category, ...children.map(c => c.category)].map(id => id != null ? categoryNames.get(id) : undefined).filter(Boolean).join(' '),
+          weight: 0.6
+        },
+        { name: 'account', text: accountNames.get(txn.account), weight: 0.5 }
+      ]);
+      if (score === 0) continue;
+      hits.push({
+        score,
+        matchedFields,
+        id: txn.id,
+        date: txn.date,
+        amount: txn.amount,
+        accountId: txn.account,
+        accountName: accountNames.get(txn.account) ?? null,
+        payeeName: txn.payee != null ? payeeNames.get(txn.payee) ?? null : null,
+        importedPayee: txn.imported_payee ?? null,
+        categoryName: txn.category != null ? categoryNames.get(txn.category) ?? null : null,
+        notes: txn.notes ?? null
+      });
+    }
+
+    // Best matches first; ties go to the most recent transaction.
+    return hits.sort((a, b) => b.score !== a.score ? b.score - a.score : b.date.localeCompare(a.date));
+  }
+
+  async findDuplicateTransactions (input: {
+    startDate: string
+    endDate: string
+    accountIds?: string[] | null
+    dayTolerance: number
+    amountTolerance: number
+    minConfidence: number
+  }): Promise<DuplicateGroup[]> {
+    await this.ensureReady();
+    const [txns, payees] = await Promise.all([
+      this.getTransactions({ accountIds: input.accountIds, startDate: input.startDate, endDate: input.endDate }),
+      api.getPayees()
+    ]);
+    const payeeNames = new Map(payees.map(p => [p.id, p.name]));
+    const transferPayees = new Set(payees.filter(p => p.transfer_acct != null && p.transfer_acct !== '').map(p => p.id));
+    const candidates = txns
+      .filter(t => t.starting_balance_flag !== true && !(t.payee != null && transferPayees.has(t.payee)))
+      .sort((a, b) => a.account !== b.account ? a.account.localeCompare(b.account) : a.date.localeCompare(b.date));
+
+    // Union-find over matching pairs so chains of near-duplicates form one group.
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const root = parent.get(id) ?? id;
+      if (root === id) return id;
+      const top = find(root);
+      parent.set(id, top);
+      return top;
+    };
+    const groupConfidence = new Map<string, number>();
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const a = candidates[i];
+        const b = candidates[j];
+        if (a.account !== b.account || daysBetween(a.date, b.date) > input.dayTolerance) break;
+        const score = scoreDuplicatePair(a, b, payeeNames, input);
+        if (score < input.minConfidence) continue;
+        const rootA = find(a.id);
+        const rootB = find(b.id);
+        const confidence = Math.max(score, groupConfidence.get(rootA) ?? 0, groupConfidence.get(rootB) ?? 0);
+        parent.set(rootB, rootA);
+        groupConfidence.set(rootA, confidence);
+      }
+    }
+
+    const members = new Map<string, TransactionEntity[]>();
+    for (const txn of candidates) {
+      if (!parent.has(txn.id) && !groupConfidence.has(txn.id)) continue;
+      const root = find(txn.id);
+      members.set(root, [...(members.get(root) ?? []), txn]);
+    }
+
+    const toCandidate = (t: TransactionEntity): DuplicateCandidate => ({
+      id: t.id,
+      accountId: t.account,
+      date: t.date,
+      amount: t.amount,
+      payeeName: t.payee != null ? payeeNames.get(t.payee) ?? null : null,
+      importedPayee: t.imported_payee ?? null,
+      importedId: t.imported_id ?? null,
+      category: t.category ?? null,
+      cleared: t.cleared === true,
+      reconciled: t.reconciled === true
+    });
+    return [...members.entries()]
+      .filter(([, group]) => group.length > 1)
+      .map(([root, group]) => ({
+        confidence: groupConfidence.get(root) ?? 0,
+        suggestedKeepId: [...group].sort(byKeepPreference)[0].id,
+        transactions: group.map(toCandidate)
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async resolveDuplicates (groups: Array<{ transactionIds: string[], keepId?: string | null }>, dryRun = false): Promise<DuplicateResolution> {
+    await this.ensureReady();
+    const result: DuplicateResolution = { applied: !dryRun, kept: [], deleted: [], skipped: [] };
+    const deleted: TransactionEntity[] = [];
+    // Journal whatever was deleted even when a later delete fails, so those rows can still be undone.
+    try {
+      for (const group of groups) {
+        const txns = await Promise.all(group.transactionIds.map(async id => await this.findTransaction(id)));
+        const keep = group.keepId != null
+          ? txns.find(t => t.id === group.keepId)
+          : [...txns].sort(byKeepPreference)[0];
+        if (keep === undefined) {
+          throw new Error(`keepId ${group.keepId ?? ''} is not one of the group's transactions`);
+        }
+        result.kept.push(keep.id);
+        for (const txn of txns) {
+          if (txn.id === keep.id) continue;
+          if (txn.reconciled === true) {
+            result.skipped.push({ id: txn.id, reason: 'reconciled transactions are never deleted automatically' });
+            continue;
+          }
+          if (!dryRun) await api.deleteTransaction(txn.id);
+          deleted.push(txn);
+          result.deleted.push(txn.id);
+        }
+      }
+    } finally {
+      if (!dryRun && deleted.length > 0) {
+        this.recordChange({
+          action: 'resolve-duplicates',
+          entityType: 'transaction',
+          entityIds: result.deleted,
+          summary: `Deleted ${deleted.length} duplicate transaction(s)`,
+          before: deleted,
+          after: null,
+          inverse: { type: 'restore-transactions', transactions: deleted }
+        });
+      }
+    }
+    return result;
+  }
+
+  async bulkUpdateTransactions (
+    filters: Parameters<ActualClient['getTransactions']>[0],
+    patch: { categoryId?: string | null, payeeId?: string | null, appendNotes?: string | null, cleared?: boolean | null },
+    confirm: boolean
+  ): Promise<BulkUpdateResult> {
+    await this.ensureReady();
+    const txns = await this.getTransactions(filters);
+
+    const preview: BulkUpdatePreview[] = [];
+    for (const txn of txns) {
+      const before = {
+        payee: txn.payee ?? null,
+        category: txn.category ?? null,
+        notes: txn.notes ?? null,
+        cleared: txn.cleared === true
+      };
+      const appended = patch.appendNotes != null && patch.appendNotes !== ''
+        ? (before.notes !== null && before.notes !== '' ? `${before.notes} ${patch.appendNotes}` : patch.appendNotes)
+        : before.notes;
+      const after = {
+        payee: patch.payeeId ?? before.payee,
+        category: txn.is_parent === true ? before.category : patch.categoryId ?? before.category,
+        notes: appended,
+        cleared: patch.cleared ?? before.cleared
+      };
+      if (JSON.stringify(before) === JSON.stringify(after)) continue;
+      preview.push({ id: txn.id, date: txn.date, amount: txn.amount, before, after });
+    }
+
+    if (confirm) {
+      for (const item of preview) {
+        await api.updateTransaction(item.id, {
+          payee: item.after.payee ?? undefined,
+          category: item.after.category ?? undefined,
+          notes: item.after.notes ?? undefined,
+          cleared: item.after.cleared
+        });
+      }
+      if (preview.length > 0) {
+        this.recordChange({
+          action: 'bulk-update-transactions',
+          entityType: 'transaction',
+          entityIds: preview.map(item => item.id),
+          summary: `Updated ${preview.length} transaction(s)`,
+          before: preview.map(({ id, before }) => ({ id, ...before })),
+          after: preview.map(({ id, after }) => ({ id, ...after })),
+          inverse: {
+            type: 'update-transactions',
+            updates: preview.map(({ id, before }) => ({ transactionId: id, fields: before }))
+          }
+        });
+      }
+    }
+    return { matched: txns.length, changed: preview.length, applied: confirm, preview };
+  }
+
   async addTransaction (input: {
     accountId: string
     date: string
@@ -177,7 +939,209 @@ export class ActualClient {
     // Find the transaction we just created so callers can delete it later.
     const created = (await api.getTransactions(input.accountId, input.date, input.date))
       .find(txn => txn.imported_id === importedId);
-    return { importedId, transactionId: created?.id ?? importedId };
+    const transactionId = created?.id ?? importedId;
+    this.recordChange({
+      action: 'add-transaction',
+      entityType: 'transaction',
+      entityIds: [transactionId],
+      summary: `Added transaction ${transactionId} of ${input.amount} on ${input.date}`,
+      before: null,
+      after: { id: transactionId, account: input.accountId, ...payload },
+      inverse: { type: 'delete-transactions', transactionIds: [transactionId] }
+    });
+    return { importedId, transactionId };
+  }
+
+  async importTransactions (accountId: string, transactions: StatementTransaction[], dryRun: boolean): Promise<ImportResult> {
+    await this.ensureReady();
+    // Matching by imported_id can touch a transaction of any date, so the snapshot covers the whole account.
+    const existing = dryRun ? [] : await api.getTransactions(accountId, EARLIEST_DATE, LATEST_DATE);
+    const result: ReconcileTransactionsResult & { errors: Array<{ message: string }> } = await api.importTransactions(accountId, transactions.map(txn => ({
+      account: accountId,
+      date: txn.date,
+      amount: txn.amount,
+      payee_name: txn.payeeName ?? undefined,
+      imported_payee: txn.payeeName ?? undefined,
+      notes: txn.notes ?? undefined,
+      imported_id: txn.importedId
+    })), { defaultCleared: true, dryRun });
+    // Imported payee names can create payees, so cached names are stale even when nothing is journaled.
+    if (!dryRun) this.nameLookup = null;
+
+    if (!dryRun && (result.added.length > 0 || result.updated.length > 0)) {
+      const previous = new Map(existing.map(txn => [txn.id, txn]));
+      const updates = result.updated.flatMap(transactionId => {
+        const txn = previous.get(transactionId);
+        if (txn === undefined) return [];
+        return [{ transactionId, fields: Object.fromEntries(IMPORT_MATCH_FIELDS.map(key => [key, txn[key] ?? null])) }];
+      });
+      this.recordChange({
+        action: 'import-transactions',
+        entityType: 'transaction',
+        entityIds: [...result.added, ...result.updated],
+        summary: `Imported ${result.added.length} new and updated ${result.updated.length} matched transactions in account ${accountId}`,
+        before: updates.map(update => ({ id: update.transactionId, ...update.fields })),
+        after: { added: result.added, updated: result.updated },
+        inverse: {
+          type: 'sequence',
+          operations: [
+            { type: 'delete-transactions', transactionIds: result.added },
+            { type: 'update-transactions', updates }
+          ]
+        }
+      });
+    }
+
+    const preview = result.updatedPreview ?? [];
+    const matches = preview.map(entry => ({
+      date: entry.transaction.date,
+      amount: entry.transaction.amount,
+      payeeName: entry.transaction.imported_payee ?? null,
+      existingTransactionId: entry.existing?.id ?? null,
+      ignored: entry.ignored === true || entry.tombstone === true
+    }));
+    return {
+      accountId,
+      dryRun,
+      parsed: transactions.length,
+      added: result.added.length,
+      matched: matches.filter(m => !m.ignored).length,
+      skipped: matches.filter(m => m.ignored).length,
+      errors: result.errors.map(e => e.message),
+      matches
+    };
+  }
+
+  async createTransfer (input: {
+    fromAccountId: string
+    toAccountId: string
+    amount: number
+    date: string
+    notes?: string | null
+    categoryId?: string | null
+    cleared?: boolean | null
+  }): Promise<TransferResult> {
+    await this.ensureReady();
+    if (input.fromAccountId === input.toAccountId) {
+      throw new Error('Transfer source and destination accounts must differ');
+    }
+    const transferPayee = (await api.getPayees()).find(p => p.transfer_acct === input.toAccountId);
+    if (transferPayee === undefined) {
+      throw new Error(`No transfer payee found for account ${input.toAccountId}`);
+    }
+    const importedId = randomUUID();
+    await api.addTransactions(input.fromAccountId, [{
+      date: input.date,
+      amount: -Math.abs(input.amount),
+      payee: transferPayee.id,
+      category: input.categoryId ?? undefined,
+      notes: input.notes ?? undefined,
+      imported_id: importedId,
+      cleared: input.cleared ?? undefined
+    }], { runTransfers: true });
+    const created = (await api.getTransactions(input.fromAccountId, input.date, input.date))
+      .find(txn => txn.imported_id === importedId);
+    const transactionId = created?.id ?? importedId;
+    const counterpartTransactionId = created?.transfer_id ?? null;
+    this.recordChange({
+      action: 'create-transfer',
+      entityType: 'transaction',
+      entityIds: counterpartTransactionId !== null ? [transactionId, counterpartTransactionId] : [transactionId],
+      summary: `Transferred ${Math.abs(input.amount)} from account ${input.fromAccountId} to ${input.toAccountId} on ${input.date}`,
+      before: null,
+      after: created ?? { id: transactionId },
+      // Deleting one side of a transfer deletes its counterpart too.
+      inverse: { type: 'delete-transactions', transactionIds: [transactionId] }
+    });
+    return { transactionId, counterpartTransactionId, transferPayeeId: transferPayee.id };
+  }
+
+  async annotateTransactions<T extends TransactionEntity> (txns: T[]): Promise<Array<Omit<T, 'subtransactions'> & TransferInfo & SplitInfo>> {
+    await this.ensureReady();
+    const transferAccountByPayee = new Map<string, string>();
+    for (const payee of await api.getPayees()) {
+      if (payee.transfer_acct != null && payee.transfer_acct !== '') transferAccountByPayee.set(payee.id, payee.transfer_acct);
+    }
+    const transferInfo = (payee: string | undefined): TransferInfo => {
+      const transferAccountId = payee != null ? transferAccountByPayee.get(payee) ?? null : null;
+      return { isTransfer: transferAccountId !== null, transferAccountId };
+    };
+    return txns.map(txn => {
+      const { subtransactions, ...rest } = txn;
+      const isSplit = txn.is_parent === true && subtransactions !== undefined && subtransactions.length > 0;
+      return {
+        ...rest,
+        ...transferInfo(txn.payee),
+        isSplit,
+        // Split children are nested under their parent; the parent amount is the sum of its lines.
+        ...(isSplit
+          ? {
+              splits: subtransactions.map(child => ({
+                id: child.id,
+                amount: child.amount,
+                category: child.category ?? null,
+                payee: child.payee ?? null,
+                notes: child.notes ?? null,
+                ...transferInfo(child.payee)
+              }))
+            }
+          : {})
+      };
+    });
+  }
+
+  // One lookup serves every row of a response (and nearby calls) instead of resolving names per row.
+  private async getNameLookup (): Promise<NameLookup> {
+    if (this.nameLookup === null || Date.now() - this.nameLookup.loadedAt > NAME_LOOKUP_TTL_MS) {
+      const lookup = this.loadNameLookup();
+      this.nameLookup = { loadedAt: Date.now(), lookup };
+      lookup.catch(() => { this.nameLookup = null; });
+    }
+    return await this.nameLookup.lookup;
+  }
+
+  private async loadNameLookup (): Promise<NameLookup> {
+    await this.ensureReady();
+    const [accounts, payees, groups] = await Promise.all([api.getAccounts(), api.getPayees(), api.getCategoryGroups()]);
+    const categories = new Map<string, { name: string, groupId: string, groupName: string }>();
+    for (const group of groups) {
+      for (const category of group.categories ?? []) {
+        categories.set(category.id, { name: category.name, groupId: group.id, groupName: group.name });
+      }
+    }
+    return {
+      accounts: new Map(accounts.map(a => [a.id, a.name])),
+      payees: new Map(payees.map(p => [p.id, p.name])),
+      categories,
+      transferAccountByPayee: new Map(payees.flatMap(p => p.transfer_acct != null && p.transfer_acct !== '' ? [[p.id, p.transfer_acct]] : []))
+    };
+  }
+
+  /**
+   * Adds account, payee, category, group and transfer counterpart names plus a formatted amount
+   * next to the IDs of annotated transactions and their split lines.
+   */
+  async enrichTransactions<T extends { account: string, amount: number, payee?: string | null, category?: string | null, splits?: SplitLine[] }> (
+    txns: T[]
+  ): Promise<Array<T & TransactionNames & { splits?: Array<SplitLine & Omit<TransactionNames, 'accountName'>> }>> {
+    const names = await this.getNameLookup();
+    const lineNames = (line: { amount: number, payee?: string | null, category?: string | null }): Omit<TransactionNames, 'accountName'> => {
+      const category = line.category != null ? names.categories.get(line.category) : undefined;
+      const transferAccount = line.payee != null ? names.transferAccountByPayee.get(line.payee) : undefined;
+      return {
+        payeeName: line.payee != null ? names.payees.get(line.payee) ?? null : null,
+        categoryName: category?.name ?? null,
+        categoryGroupName: category?.groupName ?? null,
+        transferAccountName: transferAccount !== undefined ? names.accounts.get(transferAccount) ?? null : null,
+        amountFormatted: formatAmount(line.amount)
+      };
+    };
+    return txns.map(txn => ({
+      ...txn,
+      accountName: names.accounts.get(txn.account) ?? null,
+      ...lineNames(txn),
+      ...(txn.splits !== undefined ? { splits: txn.splits.map(line => ({ ...line, ...lineNames(line) })) } : {})
+    }));
   }
 
   async updateTransaction (transactionId: string, updatedFields: Partial<TransactionEntity>): Promise<boolean> {
@@ -191,64 +1155,697 @@ export class ActualClient {
       cleared: (updatedFields as any).cleared ?? undefined,
       reconciled: (updatedFields as any).reconciled ?? undefined
     };
+    const before = await this.findTransaction(transactionId);
+    const changed = (Object.keys(payload) as Array<keyof TransactionEntity>).filter(key => payload[key] !== undefined);
+    const previous = Object.fromEntries(changed.map(key => [key, before[key] ?? null]));
     await api.updateTransaction(transactionId, payload);
+    this.recordChange({
+      action: 'update-transaction',
+      entityType: 'transaction',
+      entityIds: [transactionId],
+      summary: `Updated ${changed.join(', ')} of transaction ${transactionId}`,
+      before: previous,
+      after: Object.fromEntries(changed.map(key => [key, payload[key]])),
+      inverse: { type: 'update-transactions', updates: [{ transactionId, fields: previous }] }
+    });
     return true;
   }
 
+  async updateTransactionSplits (transactionId: string, input: {
+    mode: 'replace' | 'add' | 'remove'
+    splits?: SplitLineInput[] | null
+    removeIds?: string[] | null
+    amount?: number | null
+  }, dryRun = false): Promise<TransactionEntity> {
+    await this.ensureReady();
+    const txn = await this.findTransaction(transactionId);
+    if (txn.is_child === true) {
+      throw new Error(`Transaction ${transactionId} is a split line; pass its parent ${txn.parent_id ?? ''} instead`);
+    }
+    const existing = txn.subtransactions ?? [];
+    const toInput = (child: TransactionEntity): SplitLineInput => ({
+      id: child.id,
+      amount: child.amount,
+      categoryId: child.category ?? null,
+      payeeId: child.payee ?? null,
+      notes: child.notes ?? null
+    });
+
+    let lines: SplitLineInput[];
+    if (input.mode === 'replace') {
+      lines = input.splits ?? [];
+    } else if (input.mode === 'add') {
+      lines = [...existing.map(toInput), ...(input.splits ?? [])];
+    } else {
+      const removeIds = new Set(input.removeIds ?? []);
+      const unknown = [...removeIds].filter(id => !existing.some(child => child.id === id));
+      if (unknown.length > 0) throw new Error(`Not split lines of ${transactionId}: ${unknown.join(', ')}`);
+      lines = existing.filter(child => !removeIds.has(child.id)).map(toInput);
+    }
+
+    const updated = await this.writeSplitLines(txn, lines, input.amount ?? txn.amount, dryRun);
+    if (dryRun) return updated;
+    this.recordChange({
+      action: 'update-transaction-splits',
+      entityType: 'transaction',
+      entityIds: [transactionId],
+      summary: `Changed split lines of transaction ${transactionId} (${input.mode})`,
+      before: { amount: txn.amount, splits: existing.map(toInput) },
+      after: { amount: updated.amount, splits: (updated.subtransactions ?? []).map(toInput) },
+      inverse: { type: 'restore-splits', transactionId, amount: txn.amount, splits: existing.map(toInput) }
+    });
+    return updated;
+  }
+
+  // With dryRun the lines are validated and the projected transaction is returned unsaved.
+  private async writeSplitLines (txn: TransactionEntity, lines: SplitLineInput[], amount: number, dryRun = false): Promise<TransactionEntity> {
+    const existing = txn.subtransactions ?? [];
+    if (lines.length === 0) {
+      if (dryRun) return { ...txn, amount, is_parent: false, subtransactions: [] };
+      // Deleting the last child turns the parent back into a plain transaction.
+      for (const child of existing) {
+        await api.deleteTransaction(child.id);
+      }
+      if (amount !== txn.amount) await api.updateTransaction(txn.id, { amount });
+      return await this.findTransaction(txn.id);
+    }
+
+    const total = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (total !== amount) {
+      throw new Error(`Split lines total ${total} but the transaction amount is ${amount} (difference ${amount - total})`);
+    }
+
+    const keptIds = new Set(existing.map(child => child.id));
+    const subtransactions: TransactionEntity[] = lines.map((line, index) => ({
+      id: line.id != null && keptIds.has(line.id) ? line.id : randomUUID(),
+      amount: line.amount,
+      category: line.categoryId ?? undefined,
+      payee: line.payeeId ?? txn.payee,
+      notes: line.notes ?? undefined,
+      account: txn.account,
+      date: txn.date,
+      cleared: txn.cleared,
+      reconciled: txn.reconciled,
+      is_child: true,
+      parent_id: txn.id,
+      sort_order: -index
+    }));
+    const updated = { ...txn, amount, category: undefined, is_parent: true, subtransactions };
+    if (dryRun) return updated;
+    await api.updateTransaction(txn.id, updated);
+    return await this.findTransaction(txn.id);
+  }
+
+  private async findTransaction (transactionId: string): Promise<TransactionEntity> {
+    const query = api.q('transactions').filter({ id: transactionId }).select(['*']).options({ splits: 'grouped' });
+    const { data } = await api.aqlQuery(query as unknown as Parameters<typeof api.aqlQuery>[0]) as { data: TransactionEntity[] };
+    if (data.length === 0) throw new Error(`Transaction ${transactionId} not found`);
+    return data[0];
+  }
+
   async deleteTransaction (transactionId: string): Promise<boolean> {
     await this.ensureReady();
+    const txn = await this.findTransaction(transactionId);
+    // A deleted split line is restored by rewriting its parent's lines rather than as a standalone transaction.
+    const parent = txn.is_child === true && txn.parent_id != null ? await this.findTransaction(txn.parent_id) : null;
     await api.deleteTransaction(transactionId);
+    this.recordChange({
+      action: 'delete-transaction',
+      entityType: 'transaction',
+      entityIds: parent !== null ? [transactionId, parent.id] : [transactionId],
+      summary: `Deleted transaction ${transactionId} of ${txn.amount} on ${txn.date}`,
+      before: txn,
+      after: null,
+      inverse: parent !== null
+        ? {
+            type: 'restore-splits',
+            transactionId: parent.id,
+            amount: parent.amount,
+            splits: (parent.subtransactions ?? []).map(child => ({
+              id: child.id,
+              amount: child.amount,
+              categoryId: child.category ?? null,
+              payeeId: child.payee ?? null,
+              notes: child.notes ?? null
+            }))
+          }
+        : { type: 'restore-transactions', transactions: [txn] }
+    });
     return true;
   }
 
+  async reconcileAccount (input: {
+    accountId: string
+    statementDate: string
+    statementBalance: number
+    confirm?: boolean | null
+    createAdjustment?: boolean | null
+  }): Promise<ReconciliationResult> {
+    await this.ensureReady();
+    const txns = (await api.getTransactions(input.accountId, EARLIEST_DATE, input.statementDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const cleared = txns.filter(t => t.cleared === true);
+    const clearedBalance = cleared.reduce((sum, t) => sum + t.amount, 0);
+    const workingBalance = await api.getAccountBalance(input.accountId, new Date(`${input.statementDate}T23:59:59`));
+    const difference = input.statementBalance - clearedBalance;
+
+    // Uncleared transactions closest to the gap are listed first; an exact match is the most likely culprit.
+    const unclearedTransactions = txns
+      .filter(t => t.cleared !== true)
+      .map(t => ({
+        id: t.id,
+        date: t.date,
+        amount: t.amount,
+        payee: t.payee ?? null,
+        notes: t.notes ?? null,
+        matchesDifference: difference !== 0 && t.amount === difference
+      }))
+      .sort((a, b) => Math.abs(difference - a.amount) - Math.abs(difference - b.amount));
+
+    const toReconcile = cleared.filter(t => t.reconciled !== true);
+    const result: ReconciliationResult = {
+      accountId: input.accountId,
+      statementDate: input.statementDate,
+      statementBalance: input.statementBalance,
+      clearedBalance,
+      workingBalance,
+      difference,
+      unclearedTransactions,
+      transactionsToReconcile: toReconcile.length,
+      reconciled: false,
+      reconciledCount: 0,
+      adjustmentTransactionId: null,
+      message: ''
+    };
+
+    if (input.confirm !== true) {
+      result.message = difference === 0
+        ? `Cleared balance matches the statement. Confirm to lock ${toReconcile.length} cleared transactions as reconciled.`
+        : 'Cleared balance differs from the statement. Clear the transactions that explain the gap, or confirm with createAdjustment to post a balancing transaction.';
+      return result;
+    }
+
+    if (difference !== 0 && input.createAdjustment !== true) {
+      result.message = 'Not reconciled: cleared balance still differs from the statement and createAdjustment was not requested.';
+      return result;
+    }
+
+    if (difference !== 0) {
+      const importedId = randomUUID();
+      await api.addTransactions(input.accountId, [{
+        date: input.statementDate,
+        amount: difference,
+        payee_name: 'Reconciliation balance adjustment',
+        notes: `Reconciliation adjustment for statement ending ${input.statementDate}`,
+        imported_id: importedId,
+        cleared: true
+      }]);
+      const adjustment = (await api.getTransactions(input.accountId, input.statementDate, input.statementDate))
+        .find(txn => txn.imported_id === importedId);
+      result.adjustmentTransactionId = adjustment?.id ?? importedId;
+      await api.updateTransaction(result.adjustmentTransactionId, { reconciled: true });
+    }
+
+    for (const txn of toReconcile) {
+      await api.updateTransaction(txn.id, { reconciled: true });
+    }
+    result.reconciled = true;
+    result.reconciledCount = toReconcile.length + (result.adjustmentTransactionId !== null ? 1 : 0);
+    result.message = `Reconciled ${result.reconciledCount} transactions through ${input.statementDate}.`;
+
+    // Undo unlocks everything this reconciliation locked, then removes the adjustment it posted.
+    const lockedIds = [...toReconcile.map(t => t.id), ...(result.adjustmentTransactionId !== null ? [result.adjustmentTransactionId] : [])];
+    this.recordChange({
+      action: 'reconcile-account',
+      entityType: 'transaction',
+      entityIds: lockedIds,
+      summary: `Reconciled ${result.reconciledCount} transactions in account ${input.accountId} through ${input.statementDate}` +
+        (result.adjustmentTransactionId !== null ? ` with an adjustment of ${difference}` : ''),
+      before: { reconciled: false, transactionIds: toReconcile.map(t => t.id) },
+      after: { reconciled: true, transactionIds: lockedIds, adjustmentTransactionId: result.adjustmentTransactionId },
+      inverse: {
+        type: 'sequence',
+        operations: [
+          { type: 'update-transactions', updates: lockedIds.map(transactionId => ({ transactionId, fields: { reconciled: false } })) },
+          { type: 'delete-transactions', transactionIds: result.adjustmentTransactionId !== null ? [result.adjustmentTransactionId] : [] }
+        ]
+      }
+    });
+    return result;
+  }
+
   async getBalanceHistory (accountId: string, startDate: string, endDate: string): Promise<BalanceEntry[]> {
     await this.ensureReady();
-    const cutoffDate = new Date(startDate);
-    const starting = await api.getAccountBalance(accountId, cutoffDate);
-    const sorted = (await this.getTransactions({ accountId, startDate, endDate })).sort((a, b) =>
-      a.date.localeCompare(b.date)
-    );
-    const entries: BalanceEntry[] = [];
-    let running = starting;
-    for (const txn of sorted) {
-      running += txn.amount;
-      entries.push({ date: txn.date, balance: running });
+    // The balance before startDate, since the transactions on startDate are added below.
+    const starting = await api.getAccountBalance(accountId, balanceCutoff(addDays(startDate, -1)));
+    const txns = await this.getTransactions({ accountId, startDate, endDate });
+    return accumulateBalances(starting, txns);
+  }
+
+  /**
+   * Assets, liabilities and net worth at the end of each month or week, split into on- and off-budget accounts.
+   * Closed accounts count up to their last transaction, so a balance left behind at closing does not linger.
+   */
+  async getNetWorthHistory (input: {
+    startDate: string
+    endDate: string
+    interval: NetWorthInterval
+    accountIds?: string[] | null
+  }): Promise<NetWorthHistory> {
+    await this.ensureReady();
+    const accounts = (await api.getAccounts()).filter(a => input.accountIds == null || input.accountIds.includes(a.id));
+    const dates = periodEnds(input.startDate, input.endDate, input.interval);
+    const histories = await Promise.all(accounts.map(async account => {
+      // The full history, so a closed account's last activity is known even when it falls after endDate.
+      const txns = await api.getTransactions(account.id, EARLIEST_DATE, LATEST_DATE);
+      const lastActivity = txns.reduce((latest, txn) => txn.date > latest ? txn.date : latest, EARLIEST_DATE);
+      const balanceOn = (date: string): number => account.closed === true && date > lastActivity
+        ? 0
+        : txns.reduce((sum, txn) => txn.date <= date ? sum + txn.amount : sum, 0);
+      return { account, balanceOn };
+    }));
+
+    const points = dates.map(date => {
+      const balances = histories.map(({ account, balanceOn }) => ({ offBudget: account.offbudget === true, balance: balanceOn(date) }));
+      return {
+        date,
+        ...netWorthTotals(balances.map(b => b.balance)),
+        onBudget: netWorthTotals(balances.filter(b => !b.offBudget).map(b => b.balance)),
+        offBudget: netWorthTotals(balances.filter(b => b.offBudget).map(b => b.balance))
+      };
+    });
+
+    // Measured from the opening balance, so activity before the first period end counts too.
+    const opening = netWorthTotals(histories.map(({ balanceOn }) => balanceOn(addDays(input.startDate, -1))));
+    return {
+      interval: input.interval,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      netWorthChange: points[points.length - 1].netWorth - opening.netWorth,
+      accounts: histories.map(({ account, balanceOn }) => ({
+        accountId: account.id,
+        accountName: account.name,
+        offBudget: account.offbudget === true,
+        closed: account.closed === true,
+        startingBalance: balanceOn(addDays(input.startDate, -1)),
+        endingBalance: balanceOn(input.endDate)
+      })),
+      points
+    };
+  }
+
+  async enrichBalanceHistory (accountId: string, history: BalanceEntry[]): Promise<{ accountId: string, accountName: string | null, history: Array<BalanceEntry & { balanceFormatted: string }> }> {
+    const names = await this.getNameLookup();
+    return {
+      accountId,
+      accountName: names.accounts.get(accountId) ?? null,
+      history: history.map(entry => ({ ...entry, balanceFormatted: formatAmount(entry.balance) }))
+    };
+  }
+
+  async forecastCashFlow (input: {
+    horizonDays: number
+    threshold?: number | null
+    accountIds?: string[] | null
+    includeDetectedPatterns?: boolean | null
+    lookbackMonths?: number | null
+  }): Promise<CashFlowForecast> {
+    await this.ensureReady();
+    const startDate = today();
+    const endDate = addDays(startDate, input.horizonDays);
+    const threshold = input.threshold ?? 0;
+
+    const [accounts, payees, bills] = await Promise.all([
+      api.getAccounts(),
+      api.getPayees(),
+      this.getUpcomingBills(input.horizonDays)
+    ]);
+    const targets = accounts.filter(a => a.closed !== true && (input.accountIds == null || input.accountIds.includes(a.id)));
+    const transferAccountByPayee = new Map(payees.filter(p => p.transfer_acct != null && p.transfer_acct !== '').map(p => [p.id, p.transfer_acct]));
+
+    const events = new Map<string, ForecastEvent[]>(targets.map(a => [a.id, []]));
+    for (const bill of bills) {
+      const description = bill.name ?? bill.payeeName ?? bill.scheduleId;
+      if (bill.accountId !== null) {
+        events.get(bill.accountId)?.push({ date: bill.date, amount: bill.amount, source: 'schedule', description });
+      }
+      // Scheduled transfers also land in the account on the other side.
+      const counterpart = bill.payeeId !== null ? transferAccountByPayee.get(bill.payeeId) : undefined;
+      if (counterpart !== undefined) {
+        events.get(counterpart)?.push({ date: bill.date, amount: -bill.amount, source: 'schedule', description });
+      }
+    }
+
+    if (input.includeDetectedPatterns === true) {
+      const scheduled = new Set(bills.map(b => `${b.accountId ?? ''}:${b.payeeId ?? ''}`));
+      const lookbackStart = addDays(startDate, -31 * (input.lookbackMonths ?? 6));
+      for (const account of targets) {
+        const history = await this.getTransactions({ accountId: account.id, startDate: lookbackStart, endDate: startDate });
+        for (const event of this.detectRecurringEvents(history, startDate, endDate, scheduled, payees)) {
+          events.get(account.id)?.push(event);
+        }
+      }
+    }
+
+    const forecasts: AccountForecast[] = [];
+    for (const account of targets) {
+      const startingBalance = await api.getAccountBalance(account.id, balanceCutoff(startDate));
+      const accountEvents = (events.get(account.id) ?? []).sort((a, b) => a.date.localeCompare(b.date));
+      const changes = accumulateBalances(startingBalance, accountEvents);
+
+      const daily: BalanceEntry[] = [];
+      let balance = startingBalance;
+      let cursor = 0;
+      for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+        while (cursor < changes.length && changes[cursor].date <= date) {
+          balance = changes[cursor].balance;
+          cursor++;
+        }
+        daily.push({ date, balance });
+      }
+
+      const lowest = daily.reduce((min, point) => point.balance < min.balance ? point : min, daily[0]);
+      forecasts.push({
+        accountId: account.id,
+        accountName: account.name,
+        startingBalance,
+        endingBalance: daily[daily.length - 1].balance,
+        lowestBalance: lowest.balance,
+        lowestBalanceDate: lowest.date,
+        belowThresholdDates: daily.filter(p => p.balance < threshold).map(p => p.date),
+        events: accountEvents,
+        daily
+      });
+    }
+
+    return {
+      startDate,
+      endDate,
+      threshold,
+      alerts: forecasts
+        .filter(f => f.belowThresholdDates.length > 0)
+        .map(f => {
+          const date = f.belowThresholdDates[0];
+          return { accountId: f.accountId, accountName: f.accountName, date, balance: f.daily.find(p => p.date === date)?.balance ?? 0 };
+        }),
+      accounts: forecasts
+    };
+  }
+
+  private detectRecurringEvents (
+    history: TransactionEntity[],
+    startDate: string,
+    endDate: string,
+    scheduled: Set<string>,
+    payees: APIPayeeEntity[]
+  ): ForecastEvent[] {
+    const byPayee = new Map<string, TransactionEntity[]>();
+    for (const txn of history) {
+      if (txn.payee == null || txn.payee === '') continue;
+      if (scheduled.has(`${txn.account}:${txn.payee}`)) continue;
+      byPayee.set(txn.payee, [...(byPayee.get(txn.payee) ?? []), txn]);
+    }
+
+    const events: ForecastEvent[] = [];
+    for (const [payeeId, txns] of byPayee.entries()) {
+      if (txns.length < 3) continue;
+      const dates = txns.map(t => t.date).sort();
+      const gaps = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+      const gap = median(gaps);
+      const cadence = RECURRING_CADENCES.find(c => Math.abs(gap - c.days) <= c.tolerance);
+      if (cadence === undefined) continue;
+      // Irregular gaps mean the payee is frequent rather than recurring.
+      if (gaps.some(g => Math.abs(g - gap) > cadence.tolerance * 2)) continue;
+
+      const amount = median(txns.map(t => t.amount));
+      const description = `${payees.find(p => p.id === payeeId)?.name ?? payeeId} (detected every ~${cadence.days} days)`;
+      let next = addDays(dates[dates.length - 1], gap);
+      while (next <= endDate) {
+        if (next >= startDate) events.push({ date: next, amount, source: 'pattern', description });
+        next = addDays(next, gap);
+      }
     }
-    return entries;
+    return events;
+  }
+
+  /**
+   * Transactions counted by income, expense and spending reports. Off-budget accounts are left out unless
+   * the scope asks for them; accounts listed in accountIds are always included. Transfers between counted
+   * on-budget accounts and uncategorized transfers are left out unless the scope includes transfers.
+   */
+  private async getReportTransactions (startDate: string, endDate: string, scope: ReportScope): Promise<TransactionEntity[]> {
+    const accounts = (await api.getAccounts()).filter(a => scope.accountIds != null
+      ? scope.accountIds.includes(a.id)
+      : scope.includeOffBudget === true || a.offbudget !== true);
+    if (accounts.length === 0) return [];
+    const txns = await this.getTransactions({ accountIds: accounts.map(a => a.id), startDate, endDate });
+    if (scope.includeTransfers === true) return txns;
+    const payees = await api.getPayees();
+    const transferAccountByPayee = new Map(payees.filter(p => p.transfer_acct != null && p.transfer_acct !== '').map(p => [p.id, p.transfer_acct ?? '']));
+    return withoutInternalTransfers(txns, transferAccountByPayee, new Set(accounts.filter(a => a.offbudget !== true).map(a => a.id)));
+  }
+
+  async getSpendingByCategory (startDate: string, endDate: string, scope: ReportScope = {}): Promise<CategorySpending[]> {
+    const rollup = await this.getCategoryRollup(startDate, endDate, scope);
+    return rollup.expenses
+      .flatMap(group => group.categories)
+      .map(({ categoryId, categoryName, total }) => ({ categoryId, categoryName, total }));
   }
 
-  async getSpendingByCategory (startDate: string, endDate: string): Promise<CategorySpending[]> {
+  /**
+   * Expense and income activity per category and category group. Split lines count toward their own
+   * categories and refunds net against spending in the same category.
+   */
+  async getCategoryRollup (startDate: string, endDate: string, scope: ReportScope = {}): Promise<CategoryRollup> {
     await this.ensureReady();
-    const accounts = await this.getAccounts();
-    const txnBatches = await Promise.all(
-      accounts.map(async acct => await this.getTransactions({ accountId: acct.id, startDate, endDate }))
-    );
-    const txns = txnBatches.flat();
-    const spending = new Map<string, number>();
-    const categories = (await api.getCategories()).filter((c): c is APICategoryEntity => 'group_id' in c);
+    const [txns, groups] = await Promise.all([
+      this.getReportTransactions(startDate, endDate, scope),
+      api.getCategoryGroups()
+    ]);
+
+    const activity = new Map<string, { outflow: number, inflow: number, transactionCount: number }>();
+    const uncategorized = { outflow: 0, inflow: 0, transactionCount: 0 };
     for (const txn of txns) {
-      if (txn.category == null || txn.category === '') continue;
-      if (txn.amount >= 0) continue; // expenses only
-      spending.set(txn.category, (spending.get(txn.category) ?? 0) + Math.abs(txn.amount));
+      const lines = (txn.subtransactions ?? []).length > 0 ? txn.subtransactions ?? [] : [txn];
+      for (const line of lines) {
+        let entry = uncategorized;
+        if (line.category != null && line.category !== '') {
+          entry = activity.get(line.category) ?? { outflow: 0, inflow: 0, transactionCount: 0 };
+          activity.set(line.category, entry);
+        }
+        if (line.amount < 0) entry.outflow -= line.amount;
+        else entry.inflow += line.amount;
+        entry.transactionCount += 1;
+      }
     }
-    return [...spending.entries()].map(([categoryId, total]) => ({
-      categoryId,
-      categoryName: categories.find(c => c.id === categoryId)?.name ?? 'Unknown',
-      total
-    }));
+
+    const rollupGroups = (isIncome: boolean): CategoryGroupRollup[] => groups
+      .filter(group => (group.is_income === true) === isIncome)
+      .map(group => {
+        const categories = (group.categories ?? []).flatMap(category => {
+          const entry = activity.get(category.id);
+          if (entry === undefined) return [];
+          const total = isIncome ? entry.inflow - entry.outflow : entry.outflow - entry.inflow;
+          return [{ categoryId: category.id, categoryName: category.name, ...entry, total, percentOfTotal: 0 }];
+        });
+        return { groupId: group.id, groupName: group.name, total: categories.reduce((sum, c) => sum + c.total, 0), percentOfTotal: 0, categories };
+      })
+      .filter(group => group.categories.length > 0);
+    const withPercentages = (rollup: CategoryGroupRollup[], total: number): CategoryGroupRollup[] => {
+      const percentOf = (amount: number): number => total === 0 ? 0 : Math.round((amount / total) * 1000) / 10;
+      return rollup
+        .map(group => ({
+          ...group,
+          percentOfTotal: percentOf(group.total),
+          categories: group.categories
+            .map(category => ({ ...category, percentOfTotal: percentOf(category.total) }))
+            .sort((a, b) => b.total - a.total)
+        }))
+        .sort((a, b) => b.total - a.total);
+    };
+
+    const expenses = rollupGroups(false);
+    const income = rollupGroups(true);
+    const totalSpent = expenses.reduce((sum, group) => sum + group.total, 0);
+    const totalIncome = income.reduce((sum, group) => sum + group.total, 0);
+    return {
+      startDate,
+      endDate,
+      totalSpent,
+      totalIncome,
+      expenses: withPercentages(expenses, totalSpent),
+      income: withPercentages(income, totalIncome),
+      uncategorized
+    };
+  }
+
+  async enrichCategorySpending (spending: CategorySpending[]): Promise<Array<CategorySpending & { categoryGroupId: string | null, categoryGroupName: string | null, totalFormatted: string }>> {
+    const names = await this.getNameLookup();
+    return spending.map(row => {
+      const category = names.categories.get(row.categoryId);
+      return {
+        ...row,
+        categoryGroupId: category?.groupId ?? null,
+        categoryGroupName: category?.groupName ?? null,
+        totalFormatted: formatAmount(row.total)
+      };
+    });
+  }
+
+  /**
+   * Spending per payee, net of refunds, over a date range. With groupByMerchant, payees with the same
+   * normalized merchant name are combined.
+   */
+  async getSpendingByPayee (startDate: string, endDate: string, options: ReportScope & {
+    groupByMerchant?: boolean | null
+    topCategories?: number | null
+  } = {}): Promise<PayeeSpending[]> {
+    await this.ensureReady();
+    const [txns, groups, payees] = await Promise.all([
+      this.getReportTransactions(startDate, endDate, options),
+      api.getCategoryGroups(),
+      api.getPayees()
+    ]);
+    return summarizePayeeSpending(txns, {
+      incomeCategories: new Set(groups.filter(g => g.is_income === true).flatMap(g => (g.categories ?? []).map(c => c.id))),
+      categoryNames: new Map(groups.flatMap(g => (g.categories ?? []).map(c => [c.id, c.name]))),
+      payeeNames: new Map(payees.map(p => [p.id, p.name])),
+      groupByMerchant: options.groupByMerchant === true,
+      topCategories: options.topCategories ?? 3
+    });
+  }
+
+  async getSpendingTrends (input: {
+    months: number
+    endMonth?: string | null
+    rollingWindow: number
+    categoryIds?: string[] | null
+  }): Promise<SpendingTrends> {
+    await this.ensureReady();
+    const endMonth = input.endMonth ?? shiftMonth(today().slice(0, 7), -1);
+    const shown = Array.from({ length: input.months }, (_, i) => shiftMonth(endMonth, i - input.months + 1));
+    // A year of extra history feeds year-over-year deltas and rolling averages for the earliest months.
+    const firstMonth = shiftMonth(shown[0], -Math.max(12, input.rollingWindow - 1));
+    const [txns, groups] = await Promise.all([
+      this.getTransactions({ startDate: `${firstMonth}-01`, endDate: toDate(new Date(Date.UTC(Number(endMonth.slice(0, 4)), Number(endMonth.slice(5, 7)), 0))) }),
+      api.getCategoryGroups()
+    ]);
+
+    const expenseCategories = new Map<string, { name: string, groupId: string, groupName: string }>();
+    for (const group of groups) {
+      if (group.is_income === true) continue;
+      for (const category of group.categories ?? []) {
+        if (input.categoryIds != null && !input.categoryIds.includes(category.id)) continue;
+        expenseCategories.set(category.id, { name: category.name, groupId: group.id, groupName: group.name });
+      }
+    }
+
+    // Spending is net of refunds: the negated sum of every line in an expense category, split lines counted individually.
+    const byCategory = new Map<string, Map<string, number>>();
+    const byGroup = new Map<string, Map<string, number>>();
+    const overall = new Map<string, Map<string, number>>();
+    const add = (table: Map<string, Map<string, number>>, key: string, month: string, spent: number): void => {
+      const history = table.get(key) ?? new Map<string, number>();
+      history.set(month, (history.get(month) ?? 0) + spent);
+      table.set(key, history);
+    };
+    for (const txn of txns) {
+      const lines = (txn.subtransactions ?? []).length > 0 ? txn.subtransactions ?? [] : [txn];
+      for (const line of lines) {
+        const category = line.category != null ? expenseCategories.get(line.category) : undefined;
+        if (line.category == null || category === undefined) continue;
+        const month = txn.date.slice(0, 7);
+        add(byCategory, line.category, month, -line.amount);
+        add(byGroup, category.groupId, month, -line.amount);
+        add(overall, 'total', month, -line.amount);
+      }
+    }
+
+    const categories: CategorySpendingTrend[] = [...expenseCategories.entries()]
+      .filter(([categoryId]) => byCategory.has(categoryId))
+      .map(([categoryId, category]) => {
+        const history = byCategory.get(categoryId) ?? new Map<string, number>();
+        return {
+          ...buildTrendRow(categoryId, category.name, shown, history, input.rollingWindow),
+          groupId: category.groupId,
+          groupName: category.groupName
+        };
+      })
+      .filter(row => row.months.some(cell => cell.spent !== 0))
+      .sort((a, b) => b.total - a.total);
+    const groupRows = [...byGroup.entries()]
+      .map(([groupId, history]) => buildTrendRow(groupId, groups.find(g => g.id === groupId)?.name ?? 'Unknown', shown, history, input.rollingWindow))
+      .filter(row => row.months.some(cell => cell.spent !== 0))
+      .sort((a, b) => b.total - a.total);
+
+    return {
+      months: shown,
+      rollingWindow: input.rollingWindow,
+      categories,
+      groups: groupRows,
+      totals: buildTrendRow('total', 'All expense categories', shown, overall.get('total') ?? new Map<string, number>(), input.rollingWindow)
+    };
+  }
+
+  async getTags (startDate?: string | null, endDate?: string | null): Promise<TagSummary[]> {
+    await this.ensureReady();
+    const txns = await this.getTransactions({ startDate: startDate ?? EARLIEST_DATE, endDate: endDate ?? today() });
+    const tags = new Map<string, TagSummary>();
+    for (const line of taggedLines(txns)) {
+      for (const tag of line.tags) {
+        const summary = tags.get(tag) ?? { tag, count: 0, total: 0, firstDate: line.date, lastDate: line.date };
+        summary.count += 1;
+        summary.total += line.amount;
+        if (line.date < summary.firstDate) summary.firstDate = line.date;
+        if (line.date > summary.lastDate) summary.lastDate = line.date;
+        tags.set(tag, summary);
+      }
+    }
+    return [...tags.values()].sort((a, b) => b.count - a.count);
   }
 
-  async getMonthlySummary (year: number, month: number): Promise<MonthlySummary> {
+  async getSpendingByTag (startDate: string, endDate: string, onlyTags?: string[] | null): Promise<TagSpending[]> {
     await this.ensureReady();
+    const [txns, categories] = await Promise.all([
+      this.getTransactions({ startDate, endDate }),
+      api.getCategories()
+    ]);
+    const wanted = onlyTags != null ? new Set(onlyTags.map(tag => tag.replace(/^#/, '').toLowerCase())) : null;
+    const report = new Map<string, TagSpending & { byCategory: Map<string, number> }>();
+    for (const line of taggedLines(txns)) {
+      for (const tag of line.tags) {
+        if (wanted !== null && !wanted.has(tag)) continue;
+        const entry = report.get(tag) ?? { tag, transactionCount: 0, income: 0, expenses: 0, net: 0, categories: [], byCategory: new Map<string, number>() };
+        entry.transactionCount += 1;
+        if (line.amount >= 0) entry.income += line.amount;
+        else entry.expenses += -line.amount;
+        entry.net += line.amount;
+        if (line.amount < 0 && line.category !== null) {
+          entry.byCategory.set(line.category, (entry.byCategory.get(line.category) ?? 0) - line.amount);
+        }
+        report.set(tag, entry);
+      }
+    }
+    return [...report.values()]
+      .map(({ byCategory, ...entry }) => ({
+        ...entry,
+        categories: [...byCategory.entries()]
+          .map(([categoryId, total]) => ({ categoryId, categoryName: categories.find(c => c.id === categoryId)?.name ?? 'Unknown', total }))
+          .sort((a, b) => b.total - a.total)
+      }))
+      .sort((a, b) => b.expenses - a.expenses);
+  }
+
+  async getMonthlySummary (year: number, month: number, scope: ReportScope = {}): Promise<MonthlySummary> {
     const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
-    const endDateObj = new Date(year, month, 0); // last day of month
-    const endDate = `${endDateObj.getFullYear()}-${String(endDateObj.getMonth() + 1).padStart(2, '0')}-${String(endDateObj.getDate()).padStart(2, '0')}`;
+    const endDate = toDate(new Date(Date.UTC(year, month, 0))); // last day of month
+    return await this.getSummary(startDate, endDate, scope);
+  }
 
-    const accounts = await this.getAccounts();
-    const txnBatches = await Promise.all(
-      accounts.map(async acct => await this.getTransactions({ accountId: acct.id, startDate, endDate }))
-    );
-    const txns = txnBatches.flat();
+  async getSummary (startDate: string, endDate: string, scope: ReportScope = {}): Promise<MonthlySummary> {
+    await this.ensureReady();
+    const txns = await this.getReportTransactions(startDate, endDate, scope);
 
     const income = txns.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
     const expenses = txns.filter(t => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0);
@@ -266,14 +1863,30 @@ export class ActualClient {
     return await api.getCategories();
   }
 
+  private async findCategory (categoryId: string): Promise<APICategoryEntity> {
+    const category = (await api.getCategories()).find((c): c is APICategoryEntity => c.id === categoryId && 'group_id' in c);
+    if (category === undefined) throw new Error(`Category ${categoryId} not found`);
+    return category;
+  }
+
   async createCategory (groupId: string, categoryName: string): Promise<string> {
     await this.ensureReady();
-    return await api.createCategory({
+    const categoryId = await api.createCategory({
       name: categoryName,
       group_id: groupId,
       is_income: false,
       hidden: false
     });
+    this.recordChange({
+      action: 'create-category',
+      entityType: 'category',
+      entityIds: [categoryId],
+      summary: `Created category "${categoryName}"`,
+      before: null,
+      after: { id: categoryId, name: categoryName, group_id: groupId },
+      inverse: { type: 'delete-category', categoryId }
+    });
+    return categoryId;
   }
 
   async updateCategory (categoryId: string, update: { newName?: string | null, newGroupId?: string | null }): Promise<boolean> {
@@ -281,13 +1894,38 @@ export class ActualClient {
     const fields: Partial<APICategoryEntity> = {};
     if (update.newName !== undefined && update.newName !== null) fields.name = update.newName;
     if (update.newGroupId !== undefined && update.newGroupId !== null) (fields as unknown as { group_id: string }).group_id = update.newGroupId;
+    const before = await this.findCategory(categoryId);
     await api.updateCategory(categoryId, fields);
+    this.recordChange({
+      action: 'update-category',
+      entityType: 'category',
+      entityIds: [categoryId],
+      summary: `Updated category "${before.name}"`,
+      before,
+      after: { ...before, ...fields },
+      inverse: { type: 'update-category', categoryId, name: before.name, groupId: before.group_id }
+    });
     return true;
   }
 
   async deleteCategory (categoryId: string, transferCategoryId?: string | null): Promise<boolean> {
     await this.ensureReady();
+    const before = await this.findCategory(categoryId);
+    const transactionIds = await this.transactionIdsWhere({ category: categoryId });
     await api.deleteCategory(categoryId, transferCategoryId ?? undefined);
+    this.recordChange({
+      action: 'delete-category',
+      entityType: 'category',
+      entityIds: [categoryId],
+      summary: `Deleted category "${before.name}" (${transactionIds.length} transaction(s) assigned)`,
+      before,
+      after: null,
+      inverse: {
+        type: 'restore-category',
+        groupId: before.group_id,
+        category: { name: before.name, is_income: before.is_income ?? false, hidden: before.hidden ?? false, transactionIds }
+      }
+    });
     return true;
   }
 
@@ -296,24 +1934,69 @@ export class ActualClient {
     return await api.getCategoryGroups();
   }
 
+  private async findCategoryGroup (groupId: string): Promise<APICategoryGroupEntity> {
+    const group = (await api.getCategoryGroups()).find(g => g.id === groupId);
+    if (group === undefined) throw new Error(`Category group ${groupId} not found`);
+    return group;
+  }
+
   async createCategoryGroup (groupName: string, isIncomeGroup: boolean): Promise<string> {
     await this.ensureReady();
-    return await api.createCategoryGroup({
+    const groupId = await api.createCategoryGroup({
       name: groupName,
       is_income: isIncomeGroup,
       hidden: false
     });
+    this.recordChange({
+      action: 'create-category-group',
+      entityType: 'category-group',
+      entityIds: [groupId],
+      summary: `Created category group "${groupName}"`,
+      before: null,
+      after: { id: groupId, name: groupName, is_income: isIncomeGroup },
+      inverse: { type: 'delete-category-group', groupId }
+    });
+    return groupId;
   }
 
   async updateCategoryGroup (groupId: string, newName: string): Promise<boolean> {
     await this.ensureReady();
+    const before = await this.findCategoryGroup(groupId);
     await api.updateCategoryGroup(groupId, { name: newName });
+    this.recordChange({
+      action: 'update-category-group',
+      entityType: 'category-group',
+      entityIds: [groupId],
+      summary: `Renamed category group "${before.name}" to "${newName}"`,
+      before: { name: before.name },
+      after: { name: newName },
+      inverse: { type: 'update-category-group', groupId, name: before.name }
+    });
     return true;
   }
 
   async deleteCategoryGroup (groupId: string, transferCategoryId?: string | null): Promise<boolean> {
     await this.ensureReady();
+    const before = await this.findCategoryGroup(groupId);
+    const categories = [];
+    for (const category of before.categories ?? []) {
+      categories.push({
+        name: category.name,
+        is_income: category.is_income ?? false,
+        hidden: category.hidden ?? false,
+        transactionIds: await this.transactionIdsWhere({ category: category.id })
+      });
+    }
     await api.deleteCategoryGroup(groupId, transferCategoryId ?? undefined);
+    this.recordChange({
+      action: 'delete-category-group',
+      entityType: 'category-group',
+      entityIds: [groupId, ...(before.categories ?? []).map(c => c.id)],
+      summary: `Deleted category group "${before.name}" with ${categories.length} categories`,
+      before,
+      after: null,
+      inverse: { type: 'restore-category-group', name: before.name, is_income: before.is_income ?? false, hidden: before.hidden ?? false, categories }
+    });
     return true;
   }
 
@@ -322,23 +2005,61 @@ export class ActualClient {
     return await api.getPayees();
   }
 
+  private async findPayee (payeeId: string): Promise<APIPayeeEntity> {
+    const payee = (await api.getPayees()).find(p => p.id === payeeId);
+    if (payee === undefined) throw new Error(`Payee ${payeeId} not found`);
+    return payee;
+  }
+
   async createPayee (payeeName: string, transferAccountId?: string | null): Promise<string> {
     await this.ensureReady();
-    return await api.createPayee({ name: payeeName, transfer_acct: transferAccountId ?? undefined });
+    const payeeId = await api.createPayee({ name: payeeName, transfer_acct: transferAccountId ?? undefined });
+    this.recordChange({
+      action: 'create-payee',
+      entityType: 'payee',
+      entityIds: [payeeId],
+      summary: `Created payee "${payeeName}"`,
+      before: null,
+      after: { id: payeeId, name: payeeName, transfer_acct: transferAccountId ?? null },
+      inverse: { type: 'delete-payee', payeeId }
+    });
+    return payeeId;
   }
 
   async updatePayee (payeeId: string, update: { newName?: string | null, newTransferAccountId?: string | null }): Promise<boolean> {
     await this.ensureReady();
-    await api.updatePayee(payeeId, {
+    const before = await this.findPayee(payeeId);
+    const fields = {
       name: update.newName ?? undefined,
       transfer_acct: update.newTransferAccountId ?? undefined
+    };
+    await api.updatePayee(payeeId, fields);
+    this.recordChange({
+      action: 'update-payee',
+      entityType: 'payee',
+      entityIds: [payeeId],
+      summary: `Updated payee "${before.name}"`,
+      before,
+      after: { ...before, name: fields.name ?? before.name, transfer_acct: fields.transfer_acct ?? before.transfer_acct },
+      inverse: { type: 'update-payee', payeeId, name: before.name, transferAccountId: before.transfer_acct ?? null }
     });
     return true;
   }
 
   async deletePayee (payeeId: string): Promise<boolean> {
     await this.ensureReady();
+    const before = await this.findPayee(payeeId);
+    const transactionIds = await this.transactionIdsWhere({ payee: payeeId });
     await api.deletePayee(payeeId);
+    this.recordChange({
+      action: 'delete-payee',
+      entityType: 'payee',
+      entityIds: [payeeId],
+      summary: `Deleted payee "${before.name}" (${transactionIds.length} transaction(s) assigned)`,
+      before,
+      after: null,
+      inverse: { type: 'restore-payee', name: before.name, transactionIds }
+    });
     return true;
   }
 
@@ -347,6 +2068,12 @@ export class ActualClient {
     return await api.getRules();
   }
 
+  private async findRule (ruleId: string): Promise<RuleEntity> {
+    const rule = (await api.getRules()).find(r => r.id === ruleId);
+    if (rule === undefined) throw new Error(`Rule ${ruleId} not found`);
+    return rule;
+  }
+
   async createRule (rule: Omit<RuleEntity, 'id'>): Promise<RuleEntity> {
     await this.ensureReady();
     const payload: Omit<RuleEntity, 'id'> = {
@@ -356,48 +2083,407 @@ export class ActualClient {
       actions: rule.actions ?? []
     };
     const created = await api.createRule(payload);
+    this.recordChange({
+      action: 'create-rule',
+      entityType: 'rule',
+      entityIds: [created.id],
+      summary: `Created rule ${created.id}`,
+      before: null,
+      after: created,
+      inverse: { type: 'delete-rule', ruleId: created.id }
+    });
     return created;
   }
 
   async updateRule (ruleId: string, updatedFields: Partial<RuleEntity>): Promise<RuleEntity> {
     await this.ensureReady();
-    const allRules = await api.getRules();
-    const base: RuleEntity = allRules.find(r => r.id === ruleId) ?? {
-      id: ruleId,
-      stage: null,
-      conditionsOp: 'and',
-      conditions: [],
-      actions: []
-    };
-
+    const existing = await this.findRule(ruleId);
     const payload: RuleEntity = {
       id: ruleId,
-      stage: updatedFields.stage ?? base.stage ?? null,
-      conditionsOp: updatedFields.conditionsOp ?? base.conditionsOp ?? 'and',
-      conditions: updatedFields.conditions ?? base.conditions ?? [],
-      actions: updatedFields.actions ?? base.actions ?? []
+      stage: updatedFields.stage ?? existing.stage ?? null,
+      conditionsOp: updatedFields.conditionsOp ?? existing.conditionsOp ?? 'and',
+      conditions: updatedFields.conditions ?? existing.conditions ?? [],
+      actions: updatedFields.actions ?? existing.actions ?? []
     };
 
     const updated = await api.updateRule(payload);
+    this.recordChange({
+      action: 'update-rule',
+      entityType: 'rule',
+      entityIds: [ruleId],
+      summary: `Updated rule ${ruleId}`,
+      before: existing,
+      after: updated,
+      inverse: { type: 'update-rule', rule: existing }
+    });
     return updated;
   }
 
   async deleteRule (ruleId: string): Promise<boolean> {
     await this.ensureReady();
+    const before = await this.findRule(ruleId);
     await api.deleteRule(ruleId);
+    const { id: _id, ...definition } = before;
+    this.recordChange({
+      action: 'delete-rule',
+      entityType: 'rule',
+      entityIds: [ruleId],
+      summary: `Deleted rule ${ruleId}`,
+      before,
+      after: null,
+      inverse: { type: 'restore-rule', rule: definition }
+    });
+    return true;
+  }
+
+  async getSchedules (): Promise<APIScheduleEntity[]> {
+    await this.ensureReady();
+    return await api.getSchedules();
+  }
+
+  private async findSchedule (scheduleId: string): Promise<APIScheduleEntity> {
+    const schedule = (await api.getSchedules()).find(s => s.id === scheduleId);
+    if (schedule === undefined) throw new Error(`Schedule ${scheduleId} not found`);
+    return schedule;
+  }
+
+  async createSchedule (input: {
+    name?: string | null
+    accountId: string
+    payeeId?: string | null
+    amount: number | { num1: number, num2: number }
+    amountOp: APIScheduleEntity['amountOp']
+    date: RecurConfig | string
+    postsTransaction?: boolean | null
+  }): Promise<string> {
+    await this.ensureReady();
+    const schedule = {
+      name: input.name ?? undefined,
+      account: input.accountId,
+      payee: input.payeeId ?? undefined,
+      amount: input.amount,
+      amountOp: input.amountOp,
+      date: input.date,
+      posts_transaction: input.postsTransaction ?? false
+    };
+    const scheduleId = await api.createSchedule(schedule);
+    this.recordChange({
+      action: 'create-schedule',
+      entityType: 'schedule',
+      entityIds: [scheduleId],
+      summary: `Created schedule ${input.name ?? scheduleId}`,
+      before: null,
+      after: { id: scheduleId, ...schedule },
+      inverse: { type: 'delete-schedule', scheduleId }
+    });
+    return scheduleId;
+  }
+
+  async updateSchedule (scheduleId: string, update: ScheduleUpdate, resetNextDate?: boolean | null): Promise<boolean> {
+    await this.ensureReady();
+    const fields = scheduleFields(update);
+    const before = await this.findSchedule(scheduleId);
+    await api.updateSchedule(scheduleId, fields, resetNextDate ?? undefined);
+    const changed = Object.keys(fields) as Array<keyof APIScheduleEntity>;
+    this.recordChange({
+      action: 'update-schedule',
+      entityType: 'schedule',
+      entityIds: [scheduleId],
+      summary: `Updated ${changed.join(', ')} of schedule ${before.name ?? scheduleId}`,
+      before,
+      after: { ...before, ...fields },
+      // Date changes recompute the next occurrence, so undo puts the old one back as well.
+      inverse: {
+        type: 'sequence',
+        operations: [
+          { type: 'update-schedule', scheduleId, fields: Object.fromEntries(changed.map(key => [key, before[key]])) },
+          { type: 'set-schedule-next-date', scheduleId, nextDate: before.next_date ?? null }
+        ]
+      }
+    });
+    return true;
+  }
+
+  async deleteSchedule (scheduleId: string): Promise<boolean> {
+    await this.ensureReady();
+    const before = await this.findSchedule(scheduleId);
+    await api.deleteSchedule(scheduleId);
+    this.recordChange({
+      action: 'delete-schedule',
+      entityType: 'schedule',
+      entityIds: [scheduleId],
+      summary: `Deleted schedule ${before.name ?? scheduleId}`,
+      before,
+      after: null,
+      inverse: {
+        type: 'restore-schedule',
+        schedule: {
+          name: before.name,
+          account: before.account,
+          payee: before.payee,
+          amount: before.amount,
+          amountOp: before.amountOp,
+          date: before.date,
+          posts_transaction: before.posts_transaction
+        }
+      }
+    });
+    return true;
+  }
+
+  // The next_date skip-next-occurrence would set, computed without writing it.
+  async previewSkipNextOccurrence (scheduleId: string): Promise<string | null> {
+    await this.ensureReady();
+    const schedule = await this.findSchedule(scheduleId);
+    const current = schedule.next_date ?? null;
+    // One-off schedules keep their date; recurring ones move to the first occurrence after the current one.
+    if (typeof schedule.date === 'string' || current === null) return current;
+    const upcoming: string[] = await api.internal.send('schedule/get-upcoming-dates', { config: schedule.date, count: 3 });
+    return upcoming.find(date => date > current) ?? current;
+  }
+
+  async skipNextScheduleOccurrence (scheduleId: string): Promise<string | null> {
+    await this.ensureReady();
+    const before = await this.findSchedule(scheduleId);
+    // The public API treats next_date as system-managed, so use the same handler the Actual UI calls.
+    await api.internal.send('schedule/skip-next-date', { id: scheduleId });
+    const nextDate = (await this.findSchedule(scheduleId)).next_date ?? null;
+    this.recordChange({
+      action: 'skip-next-occurrence',
+      entityType: 'schedule',
+      entityIds: [scheduleId],
+      summary: `Skipped the ${before.next_date ?? 'next'} occurrence of schedule ${before.name ?? scheduleId}`,
+      before: { next_date: before.next_date ?? null },
+      after: { next_date: nextDate },
+      inverse: { type: 'set-schedule-next-date', scheduleId, nextDate: before.next_date ?? null }
+    });
+    return nextDate;
+  }
+
+  async getUpcomingBills (days: number): Promise<UpcomingBill[]> {
+    await this.ensureReady();
+    const start = today();
+    const end = addDays(start, days);
+    const [schedules, accounts, payees] = await Promise.all([api.getSchedules(), api.getAccounts(), api.getPayees()]);
+
+    const bills: UpcomingBill[] = [];
+    for (const schedule of schedules) {
+      if (schedule.completed === true || schedule.next_date == null) continue;
+      let dates: string[];
+      if (typeof schedule.date === 'string') {
+        dates = [schedule.date];
+      } else {
+        // At most one occurrence per day, so days + 1 always covers the horizon.
+        const upcoming: string[] = await api.internal.send('schedule/get-upcoming-dates', { config: schedule.date, count: days + 1 });
+        dates = upcoming;
+      }
+      const nextDate = schedule.next_date;
+      for (const date of dates) {
+        if (date < nextDate || date > end) continue;
+        bills.push({
+          scheduleId: schedule.id,
+          name: schedule.name ?? null,
+          date,
+          amount: scheduleAmount(schedule.amount),
+          amountOp: schedule.amountOp,
+          accountId: schedule.account ?? null,
+          accountName: accounts.find(a => a.id === schedule.account)?.name ?? null,
+          payeeId: schedule.payee ?? null,
+          payeeName: payees.find(p => p.id === schedule.payee)?.name ?? null
+        });
+      }
+    }
+    return bills.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getBudgetMonth (month: string): Promise<BudgetMonth> {
+    await this.ensureReady();
+    const raw = await api.getBudgetMonth(month);
+    return {
+      month: raw.month,
+      incomeAvailable: toNumber(raw.incomeAvailable),
+      lastMonthOverspent: toNumber(raw.lastMonthOverspent),
+      forNextMonth: toNumber(raw.forNextMonth),
+      totalBudgeted: toNumber(raw.totalBudgeted),
+      toBudget: toNumber(raw.toBudget),
+      fromLastMonth: toNumber(raw.fromLastMonth),
+      totalIncome: toNumber(raw.totalIncome),
+      totalSpent: toNumber(raw.totalSpent),
+      totalBalance: toNumber(raw.totalBalance),
+      categoryGroups: raw.categoryGroups.map(toBudgetCategoryGroup)
+    };
+  }
+
+  async setBudgetAmount (month: string, categoryId: string, amount: number): Promise<boolean> {
+    await this.ensureReady();
+    const before = findBudgetCategory(await this.getBudgetMonth(month), categoryId);
+    await api.setBudgetAmount(month, categoryId, amount);
+    this.recordChange({
+      action: 'set-budget-amount',
+      entityType: 'budget',
+      entityIds: [budgetKey(month, categoryId)],
+      summary: `Set the ${month} budget of "${before.name}" to ${amount}`,
+      before: { month, categoryId, budgeted: before.budgeted },
+      after: { month, categoryId, budgeted: amount },
+      inverse: { type: 'set-budget-amounts', month, amounts: [{ categoryId, amount: before.budgeted }] }
+    });
+    return true;
+  }
+
+  async setBudgetCarryover (month: string, categoryId: string, enabled: boolean): Promise<boolean> {
+    await this.ensureReady();
+    const before = findBudgetCategory(await this.getBudgetMonth(month), categoryId);
+    await api.setBudgetCarryover(month, categoryId, enabled);
+    this.recordChange({
+      action: 'set-budget-carryover',
+      entityType: 'budget',
+      entityIds: [budgetKey(month, categoryId)],
+      summary: `${enabled ? 'Enabled' : 'Disabled'} carryover of "${before.name}" in ${month}`,
+      before: { month, categoryId, carryover: before.carryover },
+      after: { month, categoryId, carryover: enabled },
+      inverse: { type: 'set-budget-carryover', month, categoryId, enabled: before.carryover }
+    });
     return true;
   }
 
-  async generateFinancialInsights (): Promise<string> {
+  async moveBudgetFunds (month: string, fromCategoryId: string, toCategoryId: string, amount: number, dryRun = false): Promise<BudgetMoveResult> {
+    await this.ensureReady();
+    if (fromCategoryId === toCategoryId) {
+      throw new Error('Source and destination categories must differ');
+    }
+    const budget = await this.getBudgetMonth(month);
+    const from = findBudgetCategory(budget, fromCategoryId);
+    const to = findBudgetCategory(budget, toCategoryId);
+    const moves: BudgetMove[] = [{
+      fromCategoryId,
+      fromCategoryName: from.name,
+      toCategoryId,
+      toCategoryName: to.name,
+      amount
+    }];
+    if (dryRun) return this.previewBudgetMoves(budget, moves, 0);
+    return await this.applyBudgetMoves(budget, moves, 0, 'move-budget-funds');
+  }
+
+  async coverOverspending (month: string, confirm: boolean): Promise<BudgetMoveResult> {
+    await this.ensureReady();
+    const budget = await this.getBudgetMonth(month);
+    const expenseCategories = budget.categoryGroups
+      .filter(g => !g.isIncome)
+      .flatMap(g => g.categories);
+
+    // Cover the deepest holes first, drawing from the categories with the largest surplus.
+    const overspent = expenseCategories.filter(c => c.balance < 0).sort((a, b) => a.balance - b.balance);
+    const donors = expenseCategories
+      .filter(c => c.balance > 0)
+      .sort((a, b) => b.balance - a.balance)
+      .map(c => ({ category: c, available: c.balance }));
+
+    const moves: BudgetMove[] = [];
+    let uncovered = 0;
+    for (const target of overspent) {
+      let needed = -target.balance;
+      for (const donor of donors) {
+        if (needed === 0) break;
+        if (donor.available === 0) continue;
+        const amount = Math.min(needed, donor.available);
+        donor.available -= amount;
+        needed -= amount;
+        moves.push({
+          fromCategoryId: donor.category.id,
+          fromCategoryName: donor.category.name,
+          toCategoryId: target.id,
+          toCategoryName: target.name,
+          amount
+        });
+      }
+      uncovered += needed;
+    }
+
+    if (!confirm) return this.previewBudgetMoves(budget, moves, uncovered);
+    return await this.applyBudgetMoves(budget, moves, uncovered, 'cover-overspending');
+  }
+
+  private previewBudgetMoves (budget: BudgetMonth, moves: BudgetMove[], uncoveredOverspending: number): BudgetMoveResult {
+    return {
+      month: budget.month,
+      applied: false,
+      moves,
+      uncoveredOverspending,
+      balances: this.projectBudgetMoves(budget, moves)
+    };
+  }
+
+  private projectBudgetMoves (budget: BudgetMonth, moves: BudgetMove[]): BudgetBalanceChange[] {
+    const deltas = new Map<string, number>();
+    for (const move of moves) {
+      deltas.set(move.fromCategoryId, (deltas.get(move.fromCategoryId) ?? 0) - move.amount);
+      deltas.set(move.toCategoryId, (deltas.get(move.toCategoryId) ?? 0) + move.amount);
+    }
+    return [...deltas.entries()].map(([categoryId, delta]) => {
+      const cat = findBudgetCategory(budget, categoryId);
+      return { categoryId, categoryName: cat.name, balanceBefore: cat.balance, balanceAfter: cat.balance + delta };
+    });
+  }
+
+  private async applyBudgetMoves (budget: BudgetMonth, moves: BudgetMove[], uncoveredOverspending: number, action: string): Promise<BudgetMoveResult> {
+    const budgeted = new Map<string, number>();
+    for (const move of moves) {
+      const from = budgeted.get(move.fromCategoryId) ?? findBudgetCategory(budget, move.fromCategoryId).budgeted;
+      budgeted.set(move.fromCategoryId, from - move.amount);
+      const to = budgeted.get(move.toCategoryId) ?? findBudgetCategory(budget, move.toCategoryId).budgeted;
+      budgeted.set(move.toCategoryId, to + move.amount);
+    }
+    for (const [categoryId, amount] of budgeted.entries()) {
+      await api.setBudgetAmount(budget.month, categoryId, amount);
+    }
+    if (moves.length > 0) {
+      const categoryIds = [...budgeted.keys()];
+      this.recordChange({
+        action,
+        entityType: 'budget',
+        entityIds: categoryIds.map(categoryId => budgetKey(budget.month, categoryId)),
+        summary: `Moved ${moves.reduce((sum, move) => sum + move.amount, 0)} between ${categoryIds.length} categories in ${budget.month}`,
+        before: categoryIds.map(categoryId => ({ categoryId, budgeted: findBudgetCategory(budget, categoryId).budgeted })),
+        after: [...budgeted.entries()].map(([categoryId, amount]) => ({ categoryId, budgeted: amount })),
+        inverse: {
+          type: 'set-budget-amounts',
+          month: budget.month,
+          amounts: categoryIds.map(categoryId => ({ categoryId, amount: findBudgetCategory(budget, categoryId).budgeted }))
+        }
+      });
+    }
+
+    const after = await this.getBudgetMonth(budget.month);
+    return {
+      month: budget.month,
+      applied: true,
+      moves,
+      uncoveredOverspending,
+      balances: [...budgeted.keys()].map(categoryId => {
+        const cat = findBudgetCategory(budget, categoryId);
+        return {
+          categoryId,
+          categoryName: cat.name,
+          balanceBefore: cat.balance,
+          balanceAfter: findBudgetCategory(after, categoryId).balance
+        };
+      })
+    };
+  }
+
+  async generateFinancialInsights (range?: DateRange, scope: ReportScope = {}): Promise<string> {
     await this.ensureReady();
-    const { startDate, endDate, label, daysInMonth } = getLastFullMonthRange();
-    const txns = await this.getTransactions({ startDate, endDate });
+    const { startDate, endDate, label } = range ?? getLastFullMonthRange();
+    // Ranges that run into the future (this-month, this-year) average over the days elapsed so far.
+    const daysInPeriod = daysBetween(startDate, endDate < today() ? endDate : today()) + 1;
+    const txns = await this.getReportTransactions(startDate, endDate, scope);
 
     const income = txns.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
     const expenses = txns.filter(t => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0);
     const net = income - expenses;
     const savingsRate = income > 0 ? net / income : 0;
-    const avgDailySpend = Math.round(expenses / daysInMonth);
+    const avgDailySpend = Math.round(expenses / Math.max(daysInPeriod, 1));
 
     const categories = (await api.getCategories()).filter((c): c is APICategoryEntity => 'group_id' in c);
     const categorySpend = new Map<string, number>();
@@ -409,19 +2495,19 @@ export class ActualClient {
     const topCategories = [...categorySpend.entries()]
       .sort((a, b) => b[1] - a[1])
       .slice(0, 3)
-      .map(([categoryId, total]) => `${categories.find(c => c.id === categoryId)?.name ?? 'Unknown'}: ${total}`);
+      .map(([categoryId, total]) => `${categories.find(c => c.id === categoryId)?.name ?? 'Unknown'}: ${describeAmount(total)}`);
 
     const uncategorized = txns.filter(t => t.amount < 0 && (t.category == null || t.category === ''));
     const uncategorizedTotal = uncategorized.reduce((sum, t) => sum + Math.abs(t.amount), 0);
 
     const lines = [
       `Period: ${label} (${startDate} to ${endDate})`,
-      'Amounts are shown in the currency\'s smallest unit (e.g., if USD then values are in cents, not dollars).',
-      `Income: ${income}, Expenses: ${expenses}, Net savings: ${net} (Savings rate: ${(savingsRate * 100).toFixed(1)}%)`,
-      `Average daily spend: ${avgDailySpend}`,
+      'Amounts are formatted, with the raw integer (hundredths) in parentheses.',
+      `Income: ${describeAmount(income)}, Expenses: ${describeAmount(expenses)}, Net savings: ${describeAmount(net)} (Savings rate: ${(savingsRate * 100).toFixed(1)}%)`,
+      `Average daily spend: ${describeAmount(avgDailySpend)}`,
       topCategories.length > 0 ? `Top spending categories: ${topCategories.join('; ')}` : 'Top spending categories: none found',
       uncategorized.length > 0
-        ? `Hygiene: ${uncategorized.length} uncategorized transactions totaling ${uncategorizedTotal}`
+        ? `Hygiene: ${uncategorized.length} uncategorized transactions totaling ${describeAmount(uncategorizedTotal)}`
         : 'Hygiene: no uncategorized transactions'
     ];
 
@@ -435,14 +2521,101 @@ export class ActualClient {
     return lines.join('\n');
   }
 
-  async generateBudgetReview (year: number, month: number): Promise<string> {
+  async generateBudgetReview (year: number, month: number): Promise<BudgetReview> {
     await this.ensureReady();
-    const summary = await this.getMonthlySummary(year, month);
     const monthLabel = `${year}-${String(month).padStart(2, '0')}`;
-    return [
-      `Review ${monthLabel} (amounts are in the currency's smallest unit; e.g., cents for USD):`,
-      `Income: ${summary.totalIncome}, Expenses: ${summary.totalExpenses}, Savings: ${summary.netSavings}`
-    ].join(' ');
+    const budget = await this.getBudgetMonth(monthLabel);
+
+    // Walk back through earlier months to measure how long each category has been overspent.
+    const knownMonths = new Set(await api.getBudgetMonths());
+    const history: BudgetMonth[] = [];
+    for (let i = 1; i <= OVERSPENT_LOOKBACK_MONTHS; i++) {
+      const previous = shiftMonth(monthLabel, -i);
+      if (!knownMonths.has(previous)) break;
+      history.push(await this.getBudgetMonth(previous));
+    }
+    const balanceIn = (snapshot: BudgetMonth, categoryId: string): number | undefined => {
+      for (const group of snapshot.categoryGroups) {
+        const cat = group.categories.find(c => c.id === categoryId);
+        if (cat !== undefined) return cat.balance;
+      }
+      return undefined;
+    };
+
+    const expenseGroups = budget.categoryGroups.filter(g => !g.isIncome);
+    const categories: BudgetReviewCategory[] = [];
+    for (const group of expenseGroups) {
+      for (const cat of group.categories) {
+        const spent = -cat.spent;
+        let status: BudgetReviewCategory['status'] = 'on-track';
+        if (cat.balance < 0) status = 'overspent';
+        else if (cat.budgeted > 0 && spent === 0) status = 'unused';
+        else if (spent < cat.budgeted) status = 'under';
+
+        let overspentStreak = 0;
+        if (status === 'overspent') {
+          overspentStreak = 1;
+          for (const snapshot of history) {
+            const balance = balanceIn(snapshot, cat.id);
+            if (balance === undefined || balance >= 0) break;
+            overspentStreak++;
+          }
+        }
+
+        categories.push({
+          categoryId: cat.id,
+          categoryName: cat.name,
+          groupId: group.id,
+          groupName: group.name,
+          budgeted: cat.budgeted,
+          spent,
+          balance: cat.balance,
+          variance: cat.budgeted - spent,
+          status,
+          overspentStreak
+        });
+      }
+    }
+
+    const groups = expenseGroups.map(group => ({
+      groupId: group.id,
+      groupName: group.name,
+      budgeted: group.budgeted,
+      spent: -group.spent,
+      balance: group.balance,
+      variance: group.budgeted + group.spent
+    }));
+
+    const overspent = categories.filter(c => c.status === 'overspent').sort((a, b) => a.balance - b.balance);
+    const unused = categories.filter(c => c.status === 'unused');
+    const chronic = overspent.filter(c => c.overspentStreak > 1);
+    const totalSpent = -budget.totalSpent;
+
+    const lines = [
+      `Budget review ${monthLabel} (amounts are formatted, with the raw integer in hundredths in parentheses)`,
+      `Income: ${describeAmount(budget.totalIncome)}, Budgeted: ${describeAmount(budget.totalBudgeted)}, Spent: ${describeAmount(totalSpent)}, To budget: ${describeAmount(budget.toBudget)}`,
+      overspent.length > 0
+        ? `Overspent: ${overspent.map(c => `${c.categoryName} ${describeAmount(c.balance)}`).join('; ')}`
+        : 'Overspent: none',
+      unused.length > 0
+        ? `Unused envelopes: ${unused.map(c => `${c.categoryName} (${formatAmount(c.budgeted)} budgeted)`).join('; ')}`
+        : 'Unused envelopes: none',
+      chronic.length > 0
+        ? `Overspent several months in a row: ${chronic.map(c => `${c.categoryName} (${c.overspentStreak} months)`).join('; ')}`
+        : 'Overspent several months in a row: none',
+      `Groups: ${groups.map(g => `${g.groupName} ${formatAmount(g.spent)}/${formatAmount(g.budgeted)}`).join('; ')}`
+    ];
+
+    return {
+      month: monthLabel,
+      summary: lines.join('\n'),
+      totalIncome: budget.totalIncome,
+      totalBudgeted: budget.totalBudgeted,
+      totalSpent,
+      toBudget: budget.toBudget,
+      groups,
+      categories
+    };
   }
 }
 
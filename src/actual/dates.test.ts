@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DATE_RANGE_PATTERN, resolveDateInput, resolveDateRange } from './dates.js';
+
+const range = (expression: string, now: string): [string, string] => {
+  const { startDate, endDate } = resolveDateRange(expression, now);
+  return [startDate, endDate];
+};
+
+describe('resolveDateRange', () => {
+  it('resolves month ranges across year boundaries and month lengths', () => {
+    assert.deepEqual(range('this-month', '2024-02-10'), ['2024-02-01', '2024-02-29']);
+    assert.deepEqual(range('last-month', '2026-01-15'), ['2025-12-01', '2025-12-31']);
+    assert.deepEqual(range('last-month', '2026-03-31'), ['2026-02-01', '2026-02-28']);
+  });
+
+  it('resolves quarters and years', () => {
+    assert.deepEqual(range('this-quarter', '2026-05-20'), ['2026-04-01', '2026-06-30']);
+    assert.deepEqual(range('last-quarter', '2026-02-01'), ['2025-10-01', '2025-12-31']);
+    assert.deepEqual(range('this-year', '2026-05-20'), ['2026-01-01', '2026-12-31']);
+    assert.deepEqual(range('last-year', '2026-05-20'), ['2025-01-01', '2025-12-31']);
+    assert.deepEqual(range('ytd', '2026-05-20'), ['2026-01-01', '2026-05-20']);
+  });
+
+  it('counts last-N-days inclusive of today', () => {
+    assert.deepEqual(range('last-1-days', '2026-03-01'), ['2026-03-01', '2026-03-01']);
+    assert.deepEqual(range('last-30-days', '2026-03-01'), ['2026-01-31', '2026-03-01']);
+  });
+
+  it('resolves calendar periods', () => {
+    assert.deepEqual(range('2025', '2026-05-20'), ['2025-01-01', '2025-12-31']);
+    assert.deepEqual(range('2025-Q3', '2026-05-20'), ['2025-07-01', '2025-09-30']);
+    assert.deepEqual(range('2025-11', '2026-05-20'), ['2025-11-01', '2025-11-30']);
+  });
+
+  it('rejects unknown and empty ranges', () => {
+    assert.throws(() => resolveDateRange('next-month', '2026-05-20'), /Unrecognized/);
+    assert.throws(() => resolveDateRange('last-0-days', '2026-05-20'), /Unrecognized/);
+    assert.equal(DATE_RANGE_PATTERN.test('last-0-days'), false);
+    assert.equal(DATE_RANGE_PATTERN.test('last-007-days'), false);
+    assert.equal(DATE_RANGE_PATTERN.test('last-90-days'), true);
+  });
+});
+
+describe('resolveDateInput', () => {
+  it('prefers a named range over explicit dates', () => {
+    assert.deepEqual(resolveDateInput({ range: 'last-month', startDate: '2020-01-01', endDate: '2020-01-31' }, '2026-05-20'),
+      { startDate: '2026-04-01', endDate: '2026-04-30', label: '2026-04' });
+  });
+
+  it('accepts explicit dates in order', () => {
+    assert.deepEqual(resolveDateInput({ startDate: '2026-01-01', endDate: '2026-01-31' }),
+      { startDate: '2026-01-01', endDate: '2026-01-31', label: '2026-01-01 to 2026-01-31' });
+  });
+
+  it('requires both dates in order', () => {
+    assert.throws(() => resolveDateInput({ startDate: '2026-01-01' }), /Provide a range/);
+    assert.throws(() => resolveDateInput({ startDate: '2026-02-01', endDate: '2026-01-01' }), /is after/);
+  });
+});
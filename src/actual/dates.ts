@@ -0,0 +1,100 @@
+import { MCP_TIMEZONE } from '../config.js';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const ymd = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+// Day 0 of the following month is the last day of this one, which takes care of month lengths and leap years.
+const lastDayOfMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const monthRange = (year: number, month: number): DateRange => ({
+  startDate: ymd(year, month, 1),
+  endDate: ymd(year, month, lastDayOfMonth(year, month)),
+  label: `${year}-${pad(month)}`
+});
+
+const quarterRange = (year: number, quarter: number): DateRange => {
+  const firstMonth = (quarter - 1) * 3 + 1;
+  return {
+    startDate: ymd(year, firstMonth, 1),
+    endDate: ymd(year, firstMonth + 2, lastDayOfMonth(year, firstMonth + 2)),
+    label: `${year}-Q${quarter}`
+  };
+};
+
+const shiftDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return ymd(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+export interface DateRange {
+  startDate: string
+  endDate: string
+  label: string
+}
+
+export const DATE_RANGE_PATTERN = /^(this-month|last-month|this-quarter|last-quarter|this-year|last-year|ytd|last-[1-9]\d{0,3}-days|\d{4}|\d{4}-Q[1-4]|\d{4}-(0[1-9]|1[0-2]))$/;
+
+/**
+ * Today's date (YYYY-MM-DD) in the configured timezone.
+ */
+export const today = (): string => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: MCP_TIMEZONE, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(new Date());
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Resolves a named range (this-month, last-month, this-quarter, last-quarter, this-year, last-year, ytd,
+ * last-N-days) or a calendar period (2026, 2026-Q2, 2026-03) to inclusive start and end dates.
+ */
+export const resolveDateRange = (expression: string, now = today()): DateRange => {
+  const [year, month] = now.split('-').map(Number);
+  const quarter = Math.ceil(month / 3);
+  const lastDays = /^last-([1-9]\d*)-days$/.exec(expression);
+  if (lastDays !== null) {
+    const days = Number(lastDays[1]);
+    return { startDate: shiftDays(now, 1 - days), endDate: now, label: `last ${days} days` };
+  }
+  switch (expression) {
+    case 'this-month':
+      return monthRange(year, month);
+    case 'last-month':
+      return month === 1 ? monthRange(year - 1, 12) : monthRange(year, month - 1);
+    case 'this-quarter':
+      return quarterRange(year, quarter);
+    case 'last-quarter':
+      return quarter === 1 ? quarterRange(year - 1, 4) : quarterRange(year, quarter - 1);
+    case 'this-year':
+      return { startDate: ymd(year, 1, 1), endDate: ymd(year, 12, 31), label: String(year) };
+    case 'last-year':
+      return { startDate: ymd(year - 1, 1, 1), endDate: ymd(year - 1, 12, 31), label: String(year - 1) };
+    case 'ytd':
+      return { startDate: ymd(year, 1, 1), endDate: now, label: `${year} to date` };
+  }
+  const period = /^(\d{4})(?:-Q([1-4])|-(\d{2}))?$/.exec(expression);
+  if (period === null) throw new Error(`Unrecognized date range "${expression}"`);
+  const periodYear = Number(period[1]);
+  if (period[2] !== undefined) return quarterRange(periodYear, Number(period[2]));
+  if (period[3] !== undefined) return monthRange(periodYear, Number(period[3]));
+  return { startDate: ymd(periodYear, 1, 1), endDate: ymd(periodYear, 12, 31), label: String(periodYear) };
+};
+
+/**
+ * Resolves tool input that gives either a named range or explicit startDate/endDate.
+ */
+export const resolveDateInput = (input: { range?: string | null, startDate?: string | null, endDate?: string | null }, now = today()): DateRange => {
+  if (input.range != null) return resolveDateRange(input.range, now);
+  if (input.startDate == null || input.endDate == null) {
+    throw new Error('Provide a range (e.g. last-month, 2026-Q2) or both startDate and endDate');
+  }
+  if (input.startDate > input.endDate) throw new Error(`startDate ${input.startDate} is after endDate ${input.endDate}`);
+  return { startDate: input.startDate, endDate: input.endDate, label: `${input.startDate} to ${input.endDate}` };
+};
+
+export const getLastFullMonthRange = (): DateRange => resolveDateRange('last-month');
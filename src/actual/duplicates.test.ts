@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { byKeepPreference, payeeSimilarity, scoreDuplicatePair } from './duplicates.js';
+
+const payeeNames = new Map([['cafe', 'Blue Bottle Coffee'], ['cafe-2', 'Blue Bottle'], ['books', 'City Books'], ['fuel', 'Shell']]);
+const tolerance = { dayTolerance: 3, amountTolerance: 0 };
+
+const txn = (fields: Partial<TransactionEntity>): TransactionEntity =>
+  ({ id: 'id', account: 'acct', date: '2026-03-01', amount: -500, payee: 'cafe', ...fields });
+
+describe('scoreDuplicatePair', () => {
+  it('scores an exact copy as certain', () => {
+    assert.equal(scoreDuplicatePair(txn({}), txn({}), payeeNames, tolerance), 1);
+  });
+
+  it('never pairs the same amount on the same day with unrelated payees', () => {
+    assert.equal(scoreDuplicatePair(txn({ payee: 'cafe' }), txn({ payee: 'fuel' }), payeeNames, tolerance), 0);
+    assert.equal(scoreDuplicatePair(txn({ payee: 'books' }), txn({ payee: 'fuel', date: '2026-03-02' }), payeeNames, tolerance), 0);
+  });
+
+  it('ignores pairs without payee names', () => {
+    assert.equal(scoreDuplicatePair(txn({ payee: undefined }), txn({ payee: undefined }), payeeNames, tolerance), 0);
+  });
+
+  it('pairs similar payee names and imported payees', () => {
+    assert.ok(scoreDuplicatePair(txn({ payee: 'cafe' }), txn({ payee: 'cafe-2' }), payeeNames, tolerance) >= 0.7);
+    assert.ok(scoreDuplicatePair(txn({ payee: 'cafe' }), txn({ payee: undefined, imported_payee: 'BLUE BOTTLE COFFEE #12' }), payeeNames, tolerance) >= 0.7);
+  });
+
+  it('lowers the score as the dates drift apart', () => {
+    const sameDay = scoreDuplicatePair(txn({}), txn({}), payeeNames, tolerance);
+    const threeDays = scoreDuplicatePair(txn({}), txn({ date: '2026-03-04' }), payeeNames, tolerance);
+    assert.ok(threeDays < sameDay);
+    assert.equal(scoreDuplicatePair(txn({}), txn({ date: '2026-03-05' }), payeeNames, tolerance), 0);
+  });
+
+  it('respects the amount tolerance', () => {
+    assert.equal(scoreDuplicatePair(txn({}), txn({ amount: -510 }), payeeNames, tolerance), 0);
+    assert.ok(scoreDuplicatePair(txn({}), txn({ amount: -510 }), payeeNames, { dayTolerance: 3, amountTolerance: 10 }) > 0);
+  });
+
+  it('skips pairs that share an imported_id', () => {
+    assert.equal(scoreDuplicatePair(txn({ imported_id: 'x' }), txn({ imported_id: 'x' }), payeeNames, tolerance), 0);
+  });
+});
+
+describe('payeeSimilarity', () => {
+  it('is 1 for the same payee and 0 for unrelated ones', () => {
+    assert.equal(payeeSimilarity(txn({}), txn({}), payeeNames), 1);
+    assert.equal(payeeSimilarity(txn({ payee: 'books' }), txn({ payee: 'fuel' }), payeeNames), 0);
+  });
+});
+
+describe('byKeepPreference', () => {
+  it('keeps reconciled, then categorized, then cleared copies first', () => {
+    const copies = [
+      txn({ id: 'plain' }),
+      txn({ id: 'cleared', cleared: true }),
+      txn({ id: 'categorized', category: 'food' }),
+      txn({ id: 'reconciled', reconciled: true })
+    ];
+    assert.deepEqual([...copies].sort(byKeepPreference).map(t => t.id), ['reconciled', 'categorized', 'cleared', 'plain']);
+  });
+});
@@ -0,0 +1,56 @@
+import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { daysBetween } from './dates.js';
+import { scoreSearchMatch } from './search.js';
+
+// Pairs whose payees are less alike than this are never duplicates, however close the amount and date.
+export const MIN_PAYEE_SIMILARITY = 0.5;
+
+type DuplicateSide = Pick<TransactionEntity, 'date' | 'amount' | 'payee' | 'imported_payee' | 'imported_id'>;
+
+/**
+ * How alike two payees are, from 0 to 1: 1 for the same payee, otherwise the best match between the
+ * payee and imported payee names. A side without any payee name scores 0.
+ */
+export const payeeSimilarity = (a: DuplicateSide, b: DuplicateSide, payeeNames: Map<string, string>): number => {
+  if (a.payee != null && a.payee === b.payee) return 1;
+  const nameA = [a.payee != null ? payeeNames.get(a.payee) : null, a.imported_payee].filter(Boolean).join(' ');
+  const nameB = [b.payee != null ? payeeNames.get(b.payee) : null, b.imported_payee].filter(Boolean).join(' ');
+  if (nameA === '' || nameB === '') return 0;
+  return Math.max(
+    scoreSearchMatch(nameA, [{ name: 'payee', text: nameB, weight: 1 }]).score,
+    scoreSearchMatch(nameB, [{ name: 'payee', text: nameA, weight: 1 }]).score
+  );
+};
+
+/**
+ * Confidence (0-1) that two transactions in one account are the same purchase entered twice, weighing
+ * amount, date and payee. Returns 0 when the amount or date is out of tolerance, when both carry the same
+ * imported_id (Actual already deduplicates those) or when the payees are not alike enough.
+ */
+export const scoreDuplicatePair = (
+  a: DuplicateSide,
+  b: DuplicateSide,
+  payeeNames: Map<string, string>,
+  tolerance: { dayTolerance: number, amountTolerance: number }
+): number => {
+  const amountGap = Math.abs(a.amount - b.amount);
+  const dayGap = Math.abs(daysBetween(a.date, b.date));
+  if (amountGap > tolerance.amountTolerance || dayGap > tolerance.dayTolerance) return 0;
+  if (a.imported_id != null && a.imported_id !== '' && a.imported_id === b.imported_id) return 0;
+  const payee = payeeSimilarity(a, b, payeeNames);
+  if (payee < MIN_PAYEE_SIMILARITY) return 0;
+  const score = (amountGap === 0 ? 0.3 : 0.2) + 0.2 - (0.15 * dayGap) / Math.max(tolerance.dayTolerance, 1) + 0.5 * payee;
+  return Math.round(score * 100) / 100;
+};
+
+// Prefer keeping the copy the user has already worked on: reconciled, then categorized, then cleared.
+const duplicateKeepRank = (txn: { reconciled?: boolean, category?: string | null, cleared?: boolean, imported_payee?: string | null }): number =>
+  (txn.reconciled === true ? 8 : 0) +
+  (txn.category != null && txn.category !== '' ? 4 : 0) +
+  (txn.cleared === true ? 2 : 0) +
+  (txn.imported_payee != null && txn.imported_payee !== '' ? 1 : 0);
+
+export const byKeepPreference = (a: TransactionEntity, b: TransactionEntity): number => {
+  const rank = duplicateKeepRank(b) - duplicateKeepRank(a);
+  return rank !== 0 ? rank : a.date.localeCompare(b.date);
+};
@@ -0,0 +1,50 @@
+import { MCP_CURRENCY, MCP_CURRENCY_LOCALE, MCP_CURRENCY_SYMBOL } from '../config.js';
+
+// Actual stores every amount as an integer number of hundredths, whatever the currency.
+export const AMOUNT_DECIMALS = 2;
+export const AMOUNT_SCALE = 10 ** AMOUNT_DECIMALS;
+
+const currencyFormat = new Intl.NumberFormat(MCP_CURRENCY_LOCALE, {
+  style: 'currency',
+  currency: MCP_CURRENCY,
+  minimumFractionDigits: AMOUNT_DECIMALS,
+  maximumFractionDigits: AMOUNT_DECIMALS
+});
+
+export const currencySettings = {
+  code: MCP_CURRENCY,
+  decimals: AMOUNT_DECIMALS,
+  symbol: MCP_CURRENCY_SYMBOL ?? currencyFormat.formatToParts(0).find(part => part.type === 'currency')?.value ?? MCP_CURRENCY,
+  locale: MCP_CURRENCY_LOCALE
+};
+
+/**
+ * Formats an integer amount (hundredths, as Actual stores it) in the configured currency, e.g. -123456 -> "-$1,234.56".
+ */
+export const formatAmount = (amount: number): string =>
+  currencyFormat.formatToParts(amount / AMOUNT_SCALE).map(part => part.type === 'currency' ? currencySettings.symbol : part.value).join('');
+
+// Formatted text with the raw integer alongside, for generated summaries.
+export const describeAmount = (amount: number): string => `${formatAmount(amount)} (${amount})`;
+
+const AMOUNT_KEYS = new Set([
+  'amount', 'assets', 'average', 'averageTicket', 'balance', 'balanceAfter', 'balanceBefore', 'budgeted', 'clearedBalance', 'difference',
+  'endingBalance', 'expenses', 'forNextMonth', 'fromLastMonth', 'income', 'incomeAvailable', 'inflow', 'lastMonthOverspent', 'liabilities',
+  'lowestBalance', 'momChange', 'net', 'netSavings', 'netWorth', 'netWorthChange', 'outflow', 'received', 'rollingAverage', 'spent',
+  'startingBalance', 'statementBalance', 'threshold', 'toBudget', 'total', 'totalBalance', 'totalBudgeted', 'totalExpenses',
+  'totalIncome', 'totalSpent', 'uncoveredOverspending', 'variance', 'workingBalance', 'yoyChange'
+]);
+
+/**
+ * Copies a JSON-ready value, adding a `<key>Formatted` string next to every known amount field.
+ */
+export const withFormattedAmounts = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withFormattedAmounts);
+  if (value === null || typeof value !== 'object') return value;
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = withFormattedAmounts(field);
+    if (typeof field === 'number' && AMOUNT_KEYS.has(key)) result[`${key}Formatted`] = formatAmount(field);
+  }
+  return result;
+};
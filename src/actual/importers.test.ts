@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectDecimalSeparator, parseStatement, parseStatementAmount } from './importers.js';
+
+describe('parseStatementAmount', () => {
+  it('converts amounts to integer minor units', () => {
+    assert.equal(parseStatementAmount('12.34'), 1234);
+    assert.equal(parseStatementAmount('-1,234.56'), -123456);
+    assert.equal(parseStatementAmount('+3.10'), 310);
+    assert.equal(parseStatementAmount('.5'), 50);
+    assert.equal(parseStatementAmount('0.00'), 0);
+  });
+
+  it('reads parentheses and trailing minus signs as negative', () => {
+    assert.equal(parseStatementAmount('(12.00)'), -1200);
+    assert.equal(parseStatementAmount('5-'), -500);
+  });
+
+  it('ignores currency symbols and codes around the number', () => {
+    assert.equal(parseStatementAmount('$5'), 500);
+    assert.equal(parseStatementAmount('-$5'), -500);
+    assert.equal(parseStatementAmount('$-5'), -500);
+    assert.equal(parseStatementAmount('USD 12.50'), 1250);
+    assert.equal(parseStatementAmount('12,50 €'), 1250);
+  });
+
+  it('handles comma decimals and dot thousands separators', () => {
+    assert.equal(parseStatementAmount('12,50'), 1250);
+    assert.equal(parseStatementAmount('1.234,56'), 123456);
+    assert.equal(parseStatementAmount('1 234,56'), 123456);
+    assert.equal(parseStatementAmount('1.234', ','), 123400);
+    assert.equal(parseStatementAmount('1.234'), 123400);
+    assert.equal(parseStatementAmount('1.234,5'), 123450);
+    assert.equal(parseStatementAmount('-12.345.678'), -1234567800);
+  });
+
+  it('uses the given separator instead of detecting one', () => {
+    assert.equal(parseStatementAmount('1,234', '.'), 123400);
+    assert.equal(parseStatementAmount('1,23', ','), 123);
+    assert.equal(parseStatementAmount('1.234', '.', 3), 1234);
+  });
+
+  it('rejects malformed amounts', () => {
+    for (const raw of ['1e3', '12.5.3', 'abc', '', '--5', '1-2', '1,23,4', '0x10']) {
+      assert.throws(() => parseStatementAmount(raw), /Invalid amount/, raw);
+    }
+    assert.throws(() => parseStatementAmount('12,50', '.'), /Invalid amount/);
+  });
+
+  it('rejects more decimal places than Actual stores instead of rounding them away', () => {
+    for (const raw of ['1.234', '0.125', '12,3456']) {
+      assert.throws(() => parseStatementAmount(raw, raw.includes(',') ? ',' : '.'), /Invalid amount/, raw);
+    }
+    assert.throws(() => parseStatementAmount('0.123'), /Invalid amount/);
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('picks the last separator when both appear', () => {
+    assert.equal(detectDecimalSeparator('1,234.56'), '.');
+    assert.equal(detectDecimalSeparator('1.234,56'), ',');
+  });
+
+  it('treats a comma before exactly three digits as a thousands separator', () => {
+    assert.equal(detectDecimalSeparator('1,234'), '.');
+    assert.equal(detectDecimalSeparator('12,5'), ',');
+    assert.equal(detectDecimalSeparator('12,50'), ',');
+  });
+
+  it('treats a dot before exactly three digits the same way', () => {
+    assert.equal(detectDecimalSeparator('1.234'), ',');
+    assert.equal(detectDecimalSeparator('12.5'), '.');
+    assert.equal(detectDecimalSeparator('12.50'), '.');
+  });
+});
+
+describe('parseStatement', () => {
+  it('parses CSV with quoted delimiters, escaped quotes and line breaks', () => {
+    const csv = [
+      'Date,Amount,Payee,Memo',
+      '2026-03-01,-12.50,"Coffee, Tea & Co","Said ""thanks"""',
+      '2026-03-02,100.00,Employer,"Line one',
+      'line two"',
+      '',
+      '2026-03-03,-4.00,Bakery,'
+    ].join('\r\n');
+    const rows = parseStatement('acct', 'csv', csv, { csvMapping: { date: 'Date', amount: 'Amount', payee: 'Payee', notes: 'Memo' } });
+    assert.deepEqual(rows.map(({ date, amount, payeeName, notes }) => ({ date, amount, payeeName, notes })), [
+      { date: '2026-03-01', amount: -1250, payeeName: 'Coffee, Tea & Co', notes: 'Said "thanks"' },
+      { date: '2026-03-02', amount: 10000, payeeName: 'Employer', notes: 'Line one\r\nline two' },
+      { date: '2026-03-03', amount: -400, payeeName: 'Bakery', notes: null }
+    ]);
+  });
+
+  it('combines CSV inflow and outflow columns', () => {
+    const csv = 'Date;In;Out\n01/03/2026;;12,50\n02/03/2026;1.000,00;';
+    const rows = parseStatement('acct', 'csv', csv, {
+      csvMapping: { date: 'Date', inflow: 'In', outflow: 'Out', delimiter: ';', dateFormat: 'DD/MM/YYYY', decimalSeparator: ',' }
+    });
+    assert.deepEqual(rows.map(r => [r.date, r.amount]), [['2026-03-01', -1250], ['2026-03-02', 100000]]);
+  });
+
+  it('numbers CSV rows in errors as the file does', () => {
+    const mapping = { date: 'Date', amount: 'Amount' };
+    assert.throws(() => parseStatement('acct', 'csv', 'Date,Amount\n2026-03-01,1.00\n,2.00', { csvMapping: mapping }), /CSV row 3: missing date/);
+    assert.throws(() => parseStatement('acct', 'csv', '2026-03-01,1.00\n,2.00', { csvMapping: { date: 0, amount: 1, hasHeader: false } }), /CSV row 2: missing date/);
+  });
+
+  it('rejects an unterminated quoted CSV cell', () => {
+    assert.throws(() => parseStatement('acct', 'csv', 'Date,Amount\n2026-03-01,"12.00', { csvMapping: { date: 'Date', amount: 'Amount' } }), /unterminated/);
+  });
+
+  it('gives identical rows distinct, stable imported IDs', () => {
+    const csv = 'Date,Amount\n2026-03-01,-5.00\n2026-03-01,-5.00';
+    const first = parseStatement('acct', 'csv', csv, { csvMapping: { date: 'Date', amount: 'Amount' } });
+    const second = parseStatement('acct', 'csv', csv, { csvMapping: { date: 'Date', amount: 'Amount' } });
+    assert.notEqual(first[0].importedId, first[1].importedId);
+    assert.deepEqual(first.map(r => r.importedId), second.map(r => r.importedId));
+  });
+
+  it('parses OFX transactions with comma decimals', () => {
+    const ofx = '<OFX><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260301120000<TRNAMT>-12,50<FITID>abc<NAME>Bakery</STMTTRN></OFX>';
+    assert.deepEqual(parseStatement('acct', 'ofx', ofx), [
+      { date: '2026-03-01', amount: -1250, payeeName: 'Bakery', notes: null, importedId: 'abc' }
+    ]);
+  });
+
+  it('parses QIF entries', () => {
+    const qif = '!Type:Bank\nD03/01/2026\nT-1,234.56\nPRent\nMMarch\n^\nD03/02/2026\nT12,50\nPRefund\n^';
+    const rows = parseStatement('acct', 'qif', qif);
+    assert.deepEqual(rows.map(({ date, amount, payeeName, notes }) => ({ date, amount, payeeName, notes })), [
+      { date: '2026-03-01', amount: -123456, payeeName: 'Rent', notes: 'March' },
+      { date: '2026-03-02', amount: 1250, payeeName: 'Refund', notes: null }
+    ]);
+  });
+
+  it('rejects invalid dates', () => {
+    assert.throws(() => parseStatement('acct', 'csv', 'Date,Amount\n2026-02-30,1.00', { csvMapping: { date: 'Date', amount: 'Amount' } }), /Invalid date/);
+  });
+});
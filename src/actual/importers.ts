@@ -0,0 +1,261 @@
+import { createHash } from 'node:crypto';
+import { AMOUNT_DECIMALS } from './format.js';
+import { type CsvColumnMapping, type StatementFormat, type StatementTransaction } from './types.js';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Guesses the decimal separator of one amount: the last of "." and "," when both appear, otherwise the one
+ * that is present, unless it is followed by exactly three digits: that makes it a thousands separator, so
+ * "1,234" and "1.234" both read as one thousand two hundred thirty-four.
+ */
+export const detectDecimalSeparator = (raw: string): '.' | ',' => {
+  const dot = raw.lastIndexOf('.');
+  const comma = raw.lastIndexOf(',');
+  if (dot !== -1 && comma !== -1) return comma > dot ? ',' : '.';
+  if (comma !== -1) return /^,\d{3}(?!\d)/.test(raw.slice(comma)) ? '.' : ',';
+  if (dot !== -1) return /^\.\d{3}(?!\d)/.test(raw.slice(dot)) ? ',' : '.';
+  return '.';
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a statement amount string (e.g. "-1,234.56", "(12.00)", "$5", "12,50 €") to integer minor units.
+ * Currency symbols and codes around the number are ignored; anything else that is not a plain number is rejected.
+ */
+export const parseStatementAmount = (raw: string, decimalSeparator: '.' | ',' | null = null, decimalPlaces = AMOUNT_DECIMALS): number => {
+  const invalid = new Error(`Invalid amount "${raw}"`);
+  let text = raw.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  // A sign may sit before or after a currency symbol ("-$5", "$-5") or trail the number ("5-").
+  const match = /^([^\d.,]*?)([+-]?)([^\d.,+-]*)([\d.,\s']+?)\s*(-?)([^\d.,]*)$/.exec(text.trim());
+  if (match === null || /[+-]/.test(match[1] + match[3] + match[6])) throw invalid;
+  if (match[2] !== '' && match[5] !== '') throw invalid;
+  negative = negative !== (match[2] === '-' || match[5] === '-');
+
+  const separator = decimalSeparator ?? detectDecimalSeparator(match[4]);
+  const thousandsSeparator = separator === '.' ? ',' : '.';
+  const number = match[4].replace(/[\s']/g, '');
+  // Grouped numbers start with a non-zero digit, and fractions longer than Actual stores are rejected rather than rounded.
+  const pattern = new RegExp(
+    `^([1-9]\\d{0,2}(${escapeRegExp(thousandsSeparator)}\\d{3})+|\\d*)(${escapeRegExp(separator)}\\d{1,${decimalPlaces}})?$`
+  );
+  if (!/\d/.test(number) || !pattern.test(number)) throw invalid;
+  const value = Math.round(Number(number.split(thousandsSeparator).join('').replace(separator, '.')) * 10 ** decimalPlaces);
+  return negative && value !== 0 ? -value : value;
+};
+
+const parseStatementDate = (raw: string, format: CsvColumnMapping['dateFormat'] = 'YYYY-MM-DD'): string => {
+  const text = raw.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+  if (format === 'MM/DD/YYYY' || format === 'DD/MM/YYYY') {
+    const parts = text.split(/[/.'-]/).map(p => p.trim());
+    if (parts.length !== 3) throw new Error(`Invalid date "${raw}"`);
+    [month, day] = format === 'MM/DD/YYYY' ? [Number(parts[0]), Number(parts[1])] : [Number(parts[1]), Number(parts[0])];
+    year = Number(parts[2]);
+    if (parts[2].length <= 2) year += 2000;
+  } else {
+    const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(text);
+    if (match === null) throw new Error(`Invalid date "${raw}"`);
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid date "${raw}"`);
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Builds a stable imported_id for statements without bank-provided IDs, so re-importing
+ * the same file dedupes instead of duplicating. Identical rows are told apart by occurrence.
+ */
+const withStableIds = (accountId: string, rows: Array<Omit<StatementTransaction, 'importedId'> & { importedId?: string | null }>): StatementTransaction[] => {
+  const seen = new Map<string, number>();
+  return rows.map(row => {
+    if (row.importedId != null && row.importedId !== '') return { ...row, importedId: row.importedId };
+    const key = [accountId, row.date, row.amount, row.payeeName ?? '', row.notes ?? ''].join('|');
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    const importedId = createHash('sha1').update(`${key}|${occurrence}`).digest('hex');
+    return { ...row, importedId: `mcp-${importedId}` };
+  });
+};
+
+// Splits CSV contents into rows of cells; quoted cells may contain delimiters, doubled quotes and line breaks.
+const parseCsvRows = (contents: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let current = '';
+  let quoted = false;
+  const endRow = (): void => {
+    row.push(current);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row.map(c => c.trim()));
+    row = [];
+    current = '';
+  };
+  for (let i = 0; i < contents.length; i++) {
+    const ch = contents[i];
+    if (quoted) {
+      if (ch === '"' && contents[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(current);
+      current = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && contents[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      current += ch;
+    }
+  }
+  if (quoted) throw new Error('CSV has an unterminated quoted cell');
+  endRow();
+  return rows;
+};
+
+const parseCsv = (contents: string, mapping: CsvColumnMapping): Array<Omit<StatementTransaction, 'importedId'> & { importedId?: string | null }> => {
+  const decimalSeparator = mapping.decimalSeparator ?? null;
+  const rows = parseCsvRows(contents, mapping.delimiter ?? ',');
+  const hasHeader = mapping.hasHeader ?? true;
+  const header = hasHeader && rows.length > 0 ? rows[0] : [];
+
+  const columnIndex = (column: string | number | null | undefined): number | null => {
+    if (column === undefined || column === null) return null;
+    if (typeof column === 'number') return column;
+    const index = header.findIndex(h => h.toLowerCase() === column.toLowerCase());
+    if (index === -1) throw new Error(`CSV column "${column}" not found in header`);
+    return index;
+  };
+  const dateIdx = columnIndex(mapping.date);
+  const amountIdx = columnIndex(mapping.amount);
+  const inflowIdx = columnIndex(mapping.inflow);
+  const outflowIdx = columnIndex(mapping.outflow);
+  const payeeIdx = columnIndex(mapping.payee);
+  const notesIdx = columnIndex(mapping.notes);
+  const importedIdIdx = columnIndex(mapping.importedId);
+  if (amountIdx === null && inflowIdx === null && outflowIdx === null) {
+    throw new Error('CSV mapping needs an amount column or inflow/outflow columns');
+  }
+
+  const cell = (cells: string[], index: number | null): string | null => {
+    if (index === null) return null;
+    const value = cells[index];
+    return value === undefined || value === '' ? null : value;
+  };
+
+  // Row numbers in errors count the header, so they match what a spreadsheet shows.
+  const firstRow = hasHeader ? 2 : 1;
+  return rows.slice(hasHeader ? 1 : 0).map((cells, i) => {
+    const rawDate = cell(cells, dateIdx);
+    if (rawDate === null) throw new Error(`CSV row ${i + firstRow}: missing date`);
+    let amount: number;
+    const rawAmount = cell(cells, amountIdx);
+    if (rawAmount !== null) {
+      amount = parseStatementAmount(rawAmount, decimalSeparator);
+    } else {
+      const inflow = cell(cells, inflowIdx);
+      const outflow = cell(cells, outflowIdx);
+      amount = (inflow !== null ? Math.abs(parseStatementAmount(inflow, decimalSeparator)) : 0) -
+        (outflow !== null ? Math.abs(parseStatementAmount(outflow, decimalSeparator)) : 0);
+    }
+    if (mapping.invertAmounts === true) amount = -amount;
+    return {
+      date: parseStatementDate(rawDate, mapping.dateFormat ?? 'YYYY-MM-DD'),
+      amount,
+      payeeName: cell(cells, payeeIdx),
+      notes: cell(cells, notesIdx),
+      importedId: cell(cells, importedIdIdx)
+    };
+  });
+};
+
+const ofxField = (block: string, tag: string): string | null => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1].trim();
+  return value === undefined || value === '' ? null : value;
+};
+
+const parseOfx = (contents: string, decimalSeparator: '.' | ',' | null): Array<Omit<StatementTransaction, 'importedId'> & { importedId?: string | null }> => {
+  const blocks = contents.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  return blocks.map((block, i) => {
+    const rawDate = ofxField(block, 'DTPOSTED');
+    const rawAmount = ofxField(block, 'TRNAMT');
+    if (rawDate === null || rawAmount === null) throw new Error(`OFX transaction ${i + 1}: missing DTPOSTED or TRNAMT`);
+    return {
+      date: parseStatementDate(rawDate.slice(0, 8)),
+      amount: parseStatementAmount(rawAmount, decimalSeparator),
+      payeeName: ofxField(block, 'NAME') ?? ofxField(block, 'PAYEE'),
+      notes: ofxField(block, 'MEMO'),
+      importedId: ofxField(block, 'FITID')
+    };
+  });
+};
+
+const parseQif = (contents: string, dateFormat: CsvColumnMapping['dateFormat'], decimalSeparator: '.' | ',' | null): Array<Omit<StatementTransaction, 'importedId'> & { importedId?: string | null }> => {
+  const rows: Array<Omit<StatementTransaction, 'importedId'>> = [];
+  let current: { date?: string, amount?: number, payeeName?: string, notes?: string } = {};
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('!')) continue;
+    const code = line[0];
+    const value = line.slice(1).trim();
+    if (code === '^') {
+      if (current.date === undefined || current.amount === undefined) throw new Error(`QIF entry ${rows.length + 1}: missing date or amount`);
+      rows.push({ date: current.date, amount: current.amount, payeeName: current.payeeName ?? null, notes: current.notes ?? null });
+      current = {};
+    } else if (code === 'D') {
+      current.date = parseStatementDate(value, dateFormat ?? 'MM/DD/YYYY');
+    } else if (code === 'T' || code === 'U') {
+      current.amount = parseStatementAmount(value, decimalSeparator);
+    } else if (code === 'P') {
+      current.payeeName = value;
+    } else if (code === 'M') {
+      current.notes = value;
+    }
+  }
+  return rows;
+};
+
+/**
+ * Parses bank statement contents into transactions with integer amounts and stable imported IDs.
+ * Without a decimal separator, each amount's separator is detected from the amount itself.
+ */
+export const parseStatement = (
+  accountId: string,
+  format: StatementFormat,
+  contents: string,
+  options?: { csvMapping?: CsvColumnMapping | null, dateFormat?: CsvColumnMapping['dateFormat'], decimalSeparator?: '.' | ',' | null }
+): StatementTransaction[] => {
+  const csvMapping = options?.csvMapping;
+  const decimalSeparator = options?.decimalSeparator ?? null;
+  switch (format) {
+    case 'csv':
+      if (csvMapping == null) throw new Error('csvMapping is required for CSV imports');
+      return withStableIds(accountId, parseCsv(contents, {
+        ...csvMapping,
+        dateFormat: csvMapping.dateFormat ?? options?.dateFormat,
+        decimalSeparator: csvMapping.decimalSeparator ?? decimalSeparator
+      }));
+    case 'ofx':
+    case 'qfx':
+      return withStableIds(accountId, parseOfx(contents, decimalSeparator));
+    case 'qif':
+      return withStableIds(accountId, parseQif(contents, options?.dateFormat, decimalSeparator));
+  }
+};
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { summarizePayeeSpending, withoutInternalTransfers } from './reports.js';
+
+// Transfer payees point at checking, savings (both on-budget) and the mortgage (off-budget).
+const transferAccountByPayee = new Map([['to-checking', 'checking'], ['to-savings', 'savings'], ['to-mortgage', 'mortgage']]);
+const onBudget = new Set(['checking', 'savings']);
+
+const txn = (fields: Partial<TransactionEntity>): TransactionEntity =>
+  ({ id: 'id', account: 'checking', date: '2026-03-01', amount: -5000, ...fields });
+
+describe('withoutInternalTransfers', () => {
+  it('keeps ordinary transactions', () => {
+    const groceries = txn({ id: 'groceries', payee: 'market', category: 'food' });
+    assert.deepEqual(withoutInternalTransfers([groceries], transferAccountByPayee, onBudget), [groceries]);
+  });
+
+  it('drops transfers between counted on-budget accounts', () => {
+    const toSavings = txn({ payee: 'to-savings', transfer_id: 'other' });
+    assert.deepEqual(withoutInternalTransfers([toSavings], transferAccountByPayee, onBudget), []);
+  });
+
+  it('keeps categorized transfers to off-budget accounts as spending', () => {
+    const mortgage = txn({ payee: 'to-mortgage', transfer_id: 'other', category: 'housing' });
+    assert.deepEqual(withoutInternalTransfers([mortgage], transferAccountByPayee, onBudget), [mortgage]);
+  });
+
+  it('drops uncategorized transfers to off-budget accounts', () => {
+    const investment = txn({ payee: 'to-mortgage', transfer_id: 'other' });
+    assert.deepEqual(withoutInternalTransfers([investment], transferAccountByPayee, onBudget), []);
+  });
+
+  it('keeps a categorized transfer to an on-budget account outside the report', () => {
+    const toSavings = txn({ payee: 'to-savings', transfer_id: 'other', category: 'goals' });
+    assert.equal(withoutInternalTransfers([toSavings], transferAccountByPayee, new Set(['checking'])).length, 1);
+  });
+
+  it('drops internal transfer lines from splits and reduces the parent amount', () => {
+    const parent = txn({
+      amount: -15000,
+      is_parent: true,
+      subtransactions: [
+        txn({ id: 'rent', amount: -5000, category: 'housing' }),
+        txn({ id: 'savings', amount: -5000, payee: 'to-savings', transfer_id: 'other' }),
+        txn({ id: 'mortgage', amount: -5000, payee: 'to-mortgage', transfer_id: 'other-2', category: 'housing' })
+      ]
+    });
+    const [result] = withoutInternalTransfers([parent], transferAccountByPayee, onBudget);
+    assert.equal(result.amount, -10000);
+    assert.deepEqual(result.subtransactions?.map(line => line.id), ['rent', 'mortgage']);
+  });
+});
+
+describe('summarizePayeeSpending', () => {
+  const options = {
+    incomeCategories: new Set(['salary']),
+    categoryNames: new Map([['food', 'Food'], ['salary', 'Salary']]),
+    payeeNames: new Map([['market', 'Market'], ['employer', 'Employer'], ['shop', 'Shop']]),
+    groupByMerchant: false,
+    topCategories: 3
+  };
+
+  it('nets categorized refunds against spending', () => {
+    const rows = summarizePayeeSpending([
+      txn({ id: 'a', payee: 'market', category: 'food', amount: -3000 }),
+      txn({ id: 'b', payee: 'market', category: 'food', amount: 1000 })
+    ], options);
+    assert.deepEqual(rows.map(r => [r.payeeName, r.total, r.transactionCount]), [['Market', 2000, 2]]);
+  });
+
+  it('leaves out income categories and uncategorized inflows', () => {
+    const rows = summarizePayeeSpending([
+      txn({ id: 'pay', payee: 'employer', category: 'salary', amount: 500000 }),
+      txn({ id: 'bonus', payee: 'employer', amount: 20000 }),
+      txn({ id: 'a', payee: 'market', amount: -1500 }),
+      txn({ id: 'b', payee: 'market', amount: 700 })
+    ], options);
+    assert.deepEqual(rows.map(r => [r.payeeName, r.total]), [['Market', 1500]]);
+  });
+
+  it('drops payees whose refunds outweigh their spending', () => {
+    const rows = summarizePayeeSpending([
+      txn({ id: 'a', payee: 'shop', category: 'food', amount: -1000 }),
+      txn({ id: 'b', payee: 'shop', category: 'food', amount: 4000 })
+    ], options);
+    assert.deepEqual(rows, []);
+  });
+});
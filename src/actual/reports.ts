@@ -0,0 +1,94 @@
+import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { normalizeMerchantName } from './search.js';
+import { type PayeeSpending } from './types.js';
+
+/**
+ * Drops transfers that only move money around inside a report: uncategorized transfers, and transfers whose
+ * both sides are on-budget accounts the report counts. Categorized transfers to off-budget accounts, such as
+ * mortgage or investment payments, stay because Actual budgets them as spending. Transfer lines inside a split
+ * are dropped the same way and the parent amount reduced to match.
+ *
+ * transferAccountByPayee maps each transfer payee to its account; countedAccountIds are the on-budget
+ * accounts in the report.
+ */
+export const withoutInternalTransfers = (
+  txns: TransactionEntity[],
+  transferAccountByPayee: Map<string, string>,
+  countedAccountIds: Set<string>
+): TransactionEntity[] => {
+  const isInternal = (line: TransactionEntity, accountId: string): boolean => {
+    if (line.transfer_id == null) return false;
+    if (line.category == null || line.category === '') return true;
+    const counterpart = transferAccountByPayee.get(line.payee ?? '');
+    return countedAccountIds.has(accountId) && counterpart !== undefined && countedAccountIds.has(counterpart);
+  };
+  return txns.flatMap(txn => {
+    if (isInternal(txn, txn.account)) return [];
+    const children = txn.subtransactions ?? [];
+    const transfers = children.filter(child => isInternal(child, txn.account));
+    if (transfers.length === 0) return [txn];
+    return [{
+      ...txn,
+      amount: txn.amount - transfers.reduce((sum, child) => sum + child.amount, 0),
+      subtransactions: children.filter(child => !transfers.includes(child))
+    }];
+  });
+};
+
+/**
+ * Spending per payee, net of refunds. Income categories and uncategorized inflows (paychecks, transfers in)
+ * are left out, as are payees whose refunds outweigh their spending, so every row is money going out.
+ * Split lines are credited to their own payee and category.
+ */
+export const summarizePayeeSpending = (txns: TransactionEntity[], options: {
+  incomeCategories: Set<string>
+  categoryNames: Map<string, string>
+  payeeNames: Map<string, string>
+  groupByMerchant: boolean
+  topCategories: number
+}): PayeeSpending[] => {
+  const rows = new Map<string, {
+    payeeIds: Set<string>
+    names: Map<string, number>
+    total: number
+    transactionIds: Set<string>
+    lastDate: string
+    categories: Map<string | null, number>
+  }>();
+  for (const txn of txns) {
+    const lines = (txn.subtransactions ?? []).length > 0 ? txn.subtransactions ?? [] : [txn];
+    for (const line of lines) {
+      const categoryId = line.category != null && line.category !== '' ? line.category : null;
+      if (categoryId !== null ? options.incomeCategories.has(categoryId) : line.amount > 0) continue;
+      const payeeId = line.payee ?? txn.payee ?? null;
+      const payeeName = payeeId !== null ? options.payeeNames.get(payeeId) ?? 'Unknown' : 'No payee';
+      const key = options.groupByMerchant ? normalizeMerchantName(payeeName) : payeeId ?? '';
+      const row = rows.get(key) ?? { payeeIds: new Set(), names: new Map(), total: 0, transactionIds: new Set(), lastDate: txn.date, categories: new Map() };
+      if (payeeId !== null) row.payeeIds.add(payeeId);
+      row.names.set(payeeName, (row.names.get(payeeName) ?? 0) + 1);
+      row.total -= line.amount;
+      row.transactionIds.add(txn.id);
+      if (txn.date > row.lastDate) row.lastDate = txn.date;
+      row.categories.set(categoryId, (row.categories.get(categoryId) ?? 0) - line.amount);
+      rows.set(key, row);
+    }
+  }
+
+  return [...rows.entries()]
+    .filter(([, row]) => row.total > 0)
+    .map(([key, row]) => ({
+      // Grouped rows take the name used most often among their payees.
+      payeeName: [...row.names.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      merchant: options.groupByMerchant ? key : null,
+      payeeIds: [...row.payeeIds],
+      total: row.total,
+      transactionCount: row.transactionIds.size,
+      averageTicket: Math.round(row.total / row.transactionIds.size),
+      lastDate: row.lastDate,
+      topCategories: [...row.categories.entries()]
+        .map(([categoryId, total]) => ({ categoryId, categoryName: categoryId !== null ? options.categoryNames.get(categoryId) ?? 'Unknown' : 'Uncategorized', total }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, options.topCategories)
+    }))
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,18 @@
+import { type APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import { type ScheduleUpdate } from './types.js';
+
+/**
+ * Maps update-schedule input to the schedule's own field names (accountId -> account, payeeId -> payee,
+ * postsTransaction -> posts_transaction), leaving out fields that are not being changed.
+ */
+export const scheduleFields = (update: ScheduleUpdate): Partial<APIScheduleEntity> => {
+  const fields: Partial<APIScheduleEntity> = {};
+  if (update.name !== undefined && update.name !== null) fields.name = update.name;
+  if (update.accountId !== undefined && update.accountId !== null) fields.account = update.accountId;
+  if (update.payeeId !== undefined && update.payeeId !== null) fields.payee = update.payeeId;
+  if (update.amount !== undefined && update.amount !== null) fields.amount = update.amount;
+  if (update.amountOp !== undefined && update.amountOp !== null) fields.amountOp = update.amountOp;
+  if (update.date !== undefined && update.date !== null) fields.date = update.date;
+  if (update.postsTransaction !== undefined && update.postsTransaction !== null) fields.posts_transaction = update.postsTransaction;
+  return fields;
+};
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeMerchantName, scoreSearchMatch, type SearchField } from './search.js';
+
+const fields = (payee: string, notes: string | null = null): SearchField[] => [
+  { name: 'payee', text: payee, weight: 1 },
+  { name: 'notes', text: notes, weight: 0.8 }
+];
+
+describe('scoreSearchMatch', () => {
+  it('scores a whole-phrase match highest, ignoring case and accents', () => {
+    assert.deepEqual(scoreSearchMatch('whole foods', fields('Whole Foods Market')), { score: 1, matchedFields: ['payee'] });
+    assert.deepEqual(scoreSearchMatch('café', fields('CAFE NERO')), { score: 1, matchedFields: ['payee'] });
+  });
+
+  it('matches a query written without spaces', () => {
+    assert.equal(scoreSearchMatch('WHOLEFOODS', fields('Whole Foods')).score, 0.9);
+  });
+
+  it('tolerates small typos', () => {
+    const result = scoreSearchMatch('amazn', fields('Amazon'));
+    assert.ok(result.score > 0);
+    assert.deepEqual(result.matchedFields, ['payee']);
+  });
+
+  it('applies field weights and reports every matching field', () => {
+    const result = scoreSearchMatch('groceries', fields('Groceries Depot', 'weekly groceries'));
+    assert.equal(result.score, 1);
+    assert.deepEqual(result.matchedFields, ['payee', 'notes']);
+    assert.equal(scoreSearchMatch('groceries', fields('Shell', 'weekly groceries')).score, 0.8);
+  });
+
+  it('returns zero when nothing matches', () => {
+    assert.deepEqual(scoreSearchMatch('xyz', fields('Shell')), { score: 0, matchedFields: [] });
+    assert.deepEqual(scoreSearchMatch('  ', fields('Shell')), { score: 0, matchedFields: [] });
+  });
+
+  it('requires at least half of a multi-word query to match a field', () => {
+    assert.equal(scoreSearchMatch('coffee beans grinder filters', fields('Coffee Shop')).score, 0);
+  });
+});
+
+describe('normalizeMerchantName', () => {
+  const sameKey = (names: string[]): void => {
+    assert.equal(new Set(names.map(normalizeMerchantName)).size, 1, names.join(' / '));
+  };
+
+  it('groups processor-prefixed and store-numbered variants', () => {
+    sameKey(['Blue Bottle Coffee', 'SQ *BLUE BOTTLE #12', 'Blue Bottle', 'TST* Blue Bottle Coffee 0042']);
+    sameKey(['AMAZON.COM*2K4', 'Amazon.com', 'Amazon']);
+    sameKey(['Trader Joe\'s #552', 'TRADER JOES']);
+  });
+
+  it('keeps names that only differ in their business type word apart from other merchants', () => {
+    assert.equal(normalizeMerchantName('Coffee Shop'), 'coffee');
+    assert.notEqual(normalizeMerchantName('Blue Bottle Coffee'), normalizeMerchantName('Blue Apron'));
+  });
+
+  it('keeps a leading number as part of the name', () => {
+    assert.equal(normalizeMerchantName('7-Eleven 32114'), normalizeMerchantName('7-ELEVEN'));
+  });
+});
@@ -0,0 +1,106 @@
+const normalize = (text: string): string =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9#]+/g, ' ').trim();
+
+const tokenize = (text: string): string[] => normalize(text).split(' ').filter(token => token !== '');
+
+// Bounded Levenshtein distance; returns limit + 1 as soon as the distance is known to exceed limit.
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (token: string): number => token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+// A word matches a token with a few typos, either as a whole or by its leading characters.
+const isNearMatch = (token: string, word: string): boolean => {
+  const limit = allowedTypos(token);
+  if (limit === 0) return false;
+  return editDistance(token, word, limit) <= limit || editDistance(token, word.slice(0, token.length), limit) <= limit;
+};
+
+/**
+ * Scores how well one text field matches a query: 1 for a whole-phrase substring match,
+ * otherwise the share of query tokens found as a word prefix or within a small edit distance.
+ */
+const scoreField = (query: string, queryTokens: string[], text: string): number => {
+  const haystack = normalize(text);
+  if (haystack === '') return 0;
+  if (haystack.includes(query)) return 1;
+  if (haystack.replace(/ /g, '').includes(query.replace(/ /g, ''))) return 0.9;
+  const words = haystack.split(' ');
+  let matched = 0;
+  for (const token of queryTokens) {
+    if (words.some(word => word.startsWith(token))) {
+      matched += 1;
+    } else if (words.some(word => isNearMatch(token, word))) {
+      matched += 0.6;
+    }
+  }
+  return (matched / queryTokens.length) * 0.8;
+};
+
+export interface SearchField {
+  name: string
+  text: string | null | undefined
+  weight: number
+}
+
+/**
+ * Case-insensitive, typo-tolerant relevance score of a query against weighted fields.
+ * Returns a score of 0 when nothing matches.
+ */
+export const scoreSearchMatch = (rawQuery: string, fields: SearchField[]): { score: number, matchedFields: string[] } => {
+  const query = normalize(rawQuery);
+  const queryTokens = tokenize(rawQuery);
+  if (queryTokens.length === 0) return { score: 0, matchedFields: [] };
+
+  let score = 0;
+  const matchedFields: string[] = [];
+  for (const field of fields) {
+    if (field.text == null) continue;
+    const fieldScore = scoreField(query, queryTokens, field.text);
+    // Require at least half the query to match a field before it counts.
+    if (fieldScore < 0.4) continue;
+    score = Math.max(score, fieldScore * field.weight);
+    if (!matchedFields.includes(field.name)) matchedFields.push(field.name);
+  }
+  return { score: Math.round(score * 100) / 100, matchedFields };
+};
+
+// Card-processor prefixes that bank feeds put in front of the merchant name.
+const PROCESSOR_PREFIXES = /^(sq|tst|sp|pp|paypal|pos|dd|ach|chk|debit|purchase)\s*[*#:]\s*/i;
+const COMPANY_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'co', 'corp', 'com', 'store', 'stores', 'online']);
+// Words describing the kind of business, which card descriptors often truncate away ("Blue Bottle Coffee" vs "BLUE BOTTLE").
+const TRAILING_BUSINESS_WORDS = new Set([
+  'bakery', 'bar', 'cafe', 'coffee', 'company', 'deli', 'grill', 'kitchen', 'market', 'pharmacy', 'restaurant', 'shop', 'supermarket'
+]);
+
+/**
+ * Reduces a payee name to a merchant key so variants such as "AMAZON.COM*2K4", "Amazon.com" and
+ * "SQ *BLUE BOTTLE #12" group together: processor prefixes, reference codes, numbers, company suffixes
+ * and trailing business-type words ("Blue Bottle Coffee") are dropped.
+ */
+export const normalizeMerchantName = (name: string): string => {
+  const withoutPrefix = name.trim().replace(PROCESSOR_PREFIXES, '');
+  // Apostrophes are dropped rather than split on, so "Trader Joe's" matches "TRADER JOES".
+  const beforeReference = withoutPrefix.split('*')[0].replace(/['’]/g, '');
+  const words = normalize(beforeReference)
+    .split(' ')
+    // Numbers after the first word are store or reference numbers; a leading one is part of the name (7-Eleven).
+    .filter((word, i) => word !== '' && !(i > 0 && /\d/.test(word)) && !word.startsWith('#') && !COMPANY_SUFFIXES.has(word));
+  // The first word always stays, so "Coffee Shop" does not collapse into every other coffee shop.
+  while (words.length > 1 && TRAILING_BUSINESS_WORDS.has(words[words.length - 1])) words.pop();
+  return words.length > 0 ? words.join(' ') : normalize(name);
+};
@@ -1,3 +1,8 @@
+import { type TransactionEntity } from '@actual-app/api/@types/loot-core/src/types/models/transaction.js';
+import { type RuleEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+import { type APIScheduleEntity } from '@actual-app/api/@types/loot-core/src/server/api-models.js';
+import { type RecurConfig } from '@actual-app/api/@types/loot-core/src/types/models/schedule.js';
+
 export interface BalanceEntry {
   date: string
   balance: number
@@ -15,3 +20,513 @@ export interface MonthlySummary {
   netSavings: number
   savingsRate: number
 }
+
+// Which accounts and transactions income, expense and spending reports count.
+export interface ReportScope {
+  accountIds?: string[] | null
+  includeTransfers?: boolean | null
+  includeOffBudget?: boolean | null
+}
+
+export interface ReconciliationCandidate {
+  id: string
+  date: string
+  amount: number
+  payee: string | null
+  notes: string | null
+  matchesDifference: boolean
+}
+
+export interface ReconciliationResult {
+  accountId: string
+  statementDate: string
+  statementBalance: number
+  clearedBalance: number
+  workingBalance: number
+  difference: number
+  unclearedTransactions: ReconciliationCandidate[]
+  transactionsToReconcile: number
+  reconciled: boolean
+  reconciledCount: number
+  adjustmentTransactionId: string | null
+  message: string
+}
+
+export interface TransferInfo {
+  isTransfer: boolean
+  transferAccountId: string | null
+}
+
+export interface SplitLine extends TransferInfo {
+  id: string
+  amount: number
+  category: string | null
+  payee: string | null
+  notes: string | null
+}
+
+export interface SplitInfo {
+  isSplit: boolean
+  splits?: SplitLine[]
+}
+
+export interface SplitLineInput {
+  id?: string | null
+  amount: number
+  categoryId?: string | null
+  payeeId?: string | null
+  notes?: string | null
+}
+
+export interface TransferResult {
+  transactionId: string
+  counterpartTransactionId: string | null
+  transferPayeeId: string
+}
+
+export interface BudgetCategory {
+  id: string
+  name: string
+  isIncome: boolean
+  hidden: boolean
+  budgeted: number
+  spent: number
+  balance: number
+  carryover: boolean
+  received: number
+}
+
+export interface BudgetCategoryGroup {
+  id: string
+  name: string
+  isIncome: boolean
+  hidden: boolean
+  budgeted: number
+  spent: number
+  balance: number
+  received: number
+  categories: BudgetCategory[]
+}
+
+export interface BudgetMonth {
+  month: string
+  incomeAvailable: number
+  lastMonthOverspent: number
+  forNextMonth: number
+  totalBudgeted: number
+  toBudget: number
+  fromLastMonth: number
+  totalIncome: number
+  totalSpent: number
+  totalBalance: number
+  categoryGroups: BudgetCategoryGroup[]
+}
+
+export type BudgetReviewStatus = 'overspent' | 'unused' | 'under' | 'on-track';
+
+export interface BudgetReviewCategory {
+  categoryId: string
+  categoryName: string
+  groupId: string
+  groupName: string
+  budgeted: number
+  spent: number
+  balance: number
+  variance: number
+  status: BudgetReviewStatus
+  overspentStreak: number
+}
+
+export interface BudgetReviewGroup {
+  groupId: string
+  groupName: string
+  budgeted: number
+  spent: number
+  balance: number
+  variance: number
+}
+
+export interface BudgetReview {
+  month: string
+  summary: string
+  totalIncome: number
+  totalBudgeted: number
+  totalSpent: number
+  toBudget: number
+  groups: BudgetReviewGroup[]
+  categories: BudgetReviewCategory[]
+}
+
+export interface BudgetMove {
+  fromCategoryId: string
+  fromCategoryName: string
+  toCategoryId: string
+  toCategoryName: string
+  amount: number
+}
+
+export interface BudgetBalanceChange {
+  categoryId: string
+  categoryName: string
+  balanceBefore: number
+  balanceAfter: number
+}
+
+export interface BudgetMoveResult {
+  month: string
+  applied: boolean
+  moves: BudgetMove[]
+  uncoveredOverspending: number
+  balances: BudgetBalanceChange[]
+}
+
+// update-schedule input; unset fields are left unchanged.
+export interface ScheduleUpdate {
+  name?: string | null
+  accountId?: string | null
+  payeeId?: string | null
+  amount?: number | { num1: number, num2: number } | null
+  amountOp?: APIScheduleEntity['amountOp'] | null
+  date?: RecurConfig | string | null
+  postsTransaction?: boolean | null
+}
+
+export interface UpcomingBill {
+  scheduleId: string
+  name: string | null
+  date: string
+  amount: number
+  amountOp: string
+  accountId: string | null
+  accountName: string | null
+  payeeId: string | null
+  payeeName: string | null
+}
+
+export interface ForecastEvent {
+  date: string
+  amount: number
+  source: 'schedule' | 'pattern'
+  description: string
+}
+
+export interface AccountForecast {
+  accountId: string
+  accountName: string
+  startingBalance: number
+  endingBalance: number
+  lowestBalance: number
+  lowestBalanceDate: string
+  belowThresholdDates: string[]
+  events: ForecastEvent[]
+  daily: BalanceEntry[]
+}
+
+export interface CashFlowForecast {
+  startDate: string
+  endDate: string
+  threshold: number
+  alerts: Array<{ accountId: string, accountName: string, date: string, balance: number }>
+  accounts: AccountForecast[]
+}
+
+export type StatementFormat = 'csv' | 'ofx' | 'qfx' | 'qif';
+
+export interface CsvColumnMapping {
+  date: string | number
+  amount?: string | number | null
+  inflow?: string | number | null
+  outflow?: string | number | null
+  payee?: string | number | null
+  notes?: string | number | null
+  importedId?: string | number | null
+  hasHeader?: boolean | null
+  delimiter?: string | null
+  dateFormat?: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | null
+  decimalSeparator?: '.' | ',' | null
+  invertAmounts?: boolean | null
+}
+
+export interface StatementTransaction {
+  date: string
+  amount: number
+  payeeName: string | null
+  notes: string | null
+  importedId: string
+}
+
+export interface ImportResult {
+  accountId: string
+  dryRun: boolean
+  parsed: number
+  added: number
+  matched: number
+  skipped: number
+  errors: string[]
+  matches: Array<{ date: string, amount: number, payeeName: string | null, existingTransactionId: string | null, ignored: boolean }>
+}
+
+export interface BulkUpdatePreview {
+  id: string
+  date: string
+  amount: number
+  before: { payee: string | null, category: string | null, notes: string | null, cleared: boolean }
+  after: { payee: string | null, category: string | null, notes: string | null, cleared: boolean }
+}
+
+export interface BulkUpdateResult {
+  matched: number
+  changed: number
+  applied: boolean
+  preview: BulkUpdatePreview[]
+}
+
+export interface TransactionSearchHit {
+  score: number
+  matchedFields: string[]
+  id: string
+  date: string
+  amount: number
+  accountId: string
+  accountName: string | null
+  payeeName: string | null
+  importedPayee: string | null
+  categoryName: string | null
+  notes: string | null
+}
+
+export interface DuplicateCandidate {
+  id: string
+  accountId: string
+  date: string
+  amount: number
+  payeeName: string | null
+  importedPayee: string | null
+  importedId: string | null
+  category: string | null
+  cleared: boolean
+  reconciled: boolean
+}
+
+export interface DuplicateGroup {
+  confidence: number
+  suggestedKeepId: string
+  transactions: DuplicateCandidate[]
+}
+
+export interface DuplicateResolution {
+  applied: boolean
+  kept: string[]
+  deleted: string[]
+  skipped: Array<{ id: string, reason: string }>
+}
+
+export type ChangeEntityType = 'transaction' | 'account' | 'category' | 'category-group' | 'payee' | 'rule' | 'schedule' | 'budget';
+
+// Entities that can be looked up by ID; budget changes are keyed by month and category instead.
+export type EntityType = Exclude<ChangeEntityType, 'budget'>;
+
+interface RestorableCategory {
+  name: string
+  is_income: boolean
+  hidden: boolean
+  transactionIds: string[]
+}
+
+/**
+ * Data needed to revert a journaled change. Deleted entities are recreated with new IDs
+ * and the transactions that referenced them are pointed at the new copy.
+ */
+export type InverseOperation =
+  | { type: 'delete-transactions', transactionIds: string[] }
+  | { type: 'restore-transactions', transactions: TransactionEntity[] }
+  | { type: 'update-transactions', updates: Array<{ transactionId: string, fields: { [K in keyof TransactionEntity]?: TransactionEntity[K] | null } }> }
+  | { type: 'restore-splits', transactionId: string, amount: number, splits: SplitLineInput[] }
+  | { type: 'delete-category', categoryId: string }
+  | { type: 'update-category', categoryId: string, name: string, groupId: string }
+  | { type: 'restore-category', groupId: string, category: RestorableCategory }
+  | { type: 'delete-category-group', groupId: string }
+  | { type: 'update-category-group', groupId: string, name: string }
+  | { type: 'restore-category-group', name: string, is_income: boolean, hidden: boolean, categories: RestorableCategory[] }
+  | { type: 'delete-payee', payeeId: string }
+  | { type: 'update-payee', payeeId: string, name: string, transferAccountId: string | null }
+  | { type: 'restore-payee', name: string, transactionIds: string[] }
+  | { type: 'delete-rule', ruleId: string }
+  | { type: 'update-rule', rule: RuleEntity }
+  | { type: 'restore-rule', rule: Omit<RuleEntity, 'id'> }
+  | { type: 'delete-account', accountId: string }
+  | { type: 'update-account', accountId: string, name: string, offbudget: boolean }
+  | { type: 'reopen-account', accountId: string, transactionIds: string[] }
+  | { type: 'close-account', accountId: string }
+  | { type: 'restore-account', name: string, offbudget: boolean, closed: boolean, transactions: TransactionEntity[], unlinkedTransactionIds: string[] }
+  | { type: 'set-budget-amounts', month: string, amounts: Array<{ categoryId: string, amount: number }> }
+  | { type: 'set-budget-carryover', month: string, categoryId: string, enabled: boolean }
+  | { type: 'delete-schedule', scheduleId: string }
+  | { type: 'update-schedule', scheduleId: string, fields: Partial<APIScheduleEntity> }
+  | { type: 'restore-schedule', schedule: Omit<APIScheduleEntity, 'id'> }
+  | { type: 'set-schedule-next-date', scheduleId: string, nextDate: string | null }
+  | { type: 'sequence', operations: InverseOperation[] };
+
+export interface ChangeJournalEntry {
+  id: string
+  timestamp: string
+  action: string
+  entityType: ChangeEntityType
+  entityIds: string[]
+  summary: string
+  before: unknown
+  after: unknown
+  inverse: InverseOperation
+  undoneAt: string | null
+}
+
+export interface UndoResult {
+  applied: boolean
+  changeId: string
+  action: string
+  undone: string
+  restoredIds: string[]
+}
+
+export interface TagSummary {
+  tag: string
+  count: number
+  total: number
+  firstDate: string
+  lastDate: string
+}
+
+export interface TagSpending {
+  tag: string
+  transactionCount: number
+  income: number
+  expenses: number
+  net: number
+  categories: CategorySpending[]
+}
+
+export interface NameLookup {
+  accounts: Map<string, string>
+  payees: Map<string, string>
+  categories: Map<string, { name: string, groupId: string, groupName: string }>
+  transferAccountByPayee: Map<string, string>
+}
+
+export interface TransactionNames {
+  accountName: string | null
+  payeeName: string | null
+  categoryName: string | null
+  categoryGroupName: string | null
+  transferAccountName: string | null
+  amountFormatted: string
+}
+
+export interface SpendingTrendCell {
+  month: string
+  spent: number
+  momChange: number
+  momChangePct: number | null
+  yoyChange: number
+  yoyChangePct: number | null
+  rollingAverage: number
+}
+
+export interface SpendingTrendRow {
+  id: string
+  name: string
+  total: number
+  average: number
+  months: SpendingTrendCell[]
+}
+
+export interface CategorySpendingTrend extends SpendingTrendRow {
+  groupId: string
+  groupName: string
+}
+
+export interface SpendingTrends {
+  months: string[]
+  rollingWindow: number
+  categories: CategorySpendingTrend[]
+  groups: SpendingTrendRow[]
+  totals: SpendingTrendRow
+}
+
+export type NetWorthInterval = 'month' | 'week';
+
+export interface NetWorthTotals {
+  assets: number
+  liabilities: number
+  netWorth: number
+}
+
+export interface NetWorthPoint extends NetWorthTotals {
+  date: string
+  onBudget: NetWorthTotals
+  offBudget: NetWorthTotals
+}
+
+export interface NetWorthAccount {
+  accountId: string
+  accountName: string
+  offBudget: boolean
+  closed: boolean
+  startingBalance: number
+  endingBalance: number
+}
+
+export interface NetWorthHistory {
+  interval: NetWorthInterval
+  startDate: string
+  endDate: string
+  netWorthChange: number
+  accounts: NetWorthAccount[]
+  points: NetWorthPoint[]
+}
+
+export interface CategoryRollupLine {
+  categoryId: string
+  categoryName: string
+  outflow: number
+  inflow: number
+  total: number
+  transactionCount: number
+  percentOfTotal: number
+}
+
+export interface CategoryGroupRollup {
+  groupId: string
+  groupName: string
+  total: number
+  percentOfTotal: number
+  categories: CategoryRollupLine[]
+}
+
+// Expense totals are outflow net of refunds; income totals are inflow net of reversals.
+export interface CategoryRollup {
+  startDate: string
+  endDate: string
+  totalSpent: number
+  totalIncome: number
+  expenses: CategoryGroupRollup[]
+  income: CategoryGroupRollup[]
+  uncategorized: { outflow: number, inflow: number, transactionCount: number }
+}
+
+export interface PayeeCategorySpend {
+  categoryId: string | null
+  categoryName: string
+  total: number
+}
+
+// One payee, or every payee sharing a normalized merchant name when grouped.
+export interface PayeeSpending {
+  payeeName: string
+  merchant: string | null
+  payeeIds: string[]
+  total: number
+  transactionCount: number
+  averageTicket: number
+  lastDate: string
+  topCategories: PayeeCategorySpend[]
+}
@@ -8,6 +8,36 @@ export const MCP_PUBLIC_URL = MCP_PUBLIC_URL_ENV !== undefined && MCP_PUBLIC_URL
   ? MCP_PUBLIC_URL_ENV
   : `http://localhost:${MCP_PORT}/mcp`;
 
+const isEnabled = (value: string | undefined): boolean => ['1', 'true', 'yes'].includes((value ?? '').toLowerCase());
+
+// Read-only deployments do not register write tools at all; dry-run deployments preview every write.
+export const MCP_READ_ONLY = isEnabled(process.env.MCP_READ_ONLY);
+export const MCP_DRY_RUN = isEnabled(process.env.MCP_DRY_RUN);
+
+// Timezone used to resolve "today" and relative date ranges such as this-month or last-90-days.
+export const MCP_TIMEZONE = process.env.MCP_TIMEZONE ?? process.env.TZ ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+try {
+  // Fail at startup rather than on the first date-range tool call.
+  Intl.DateTimeFormat('en-US', { timeZone: MCP_TIMEZONE });
+} catch {
+  throw new Error(`Invalid MCP_TIMEZONE "${MCP_TIMEZONE}"; use an IANA timezone such as Europe/Berlin or America/New_York`);
+}
+
+// Display currency for formatted amounts. Actual stores every amount as integer hundredths whatever the currency.
+export const MCP_CURRENCY = (process.env.MCP_CURRENCY ?? 'USD').toUpperCase();
+export const MCP_CURRENCY_LOCALE = process.env.MCP_CURRENCY_LOCALE ?? 'en-US';
+export const MCP_CURRENCY_SYMBOL = process.env.MCP_CURRENCY_SYMBOL;
+try {
+  Intl.NumberFormat(MCP_CURRENCY_LOCALE);
+} catch {
+  throw new Error(`Invalid MCP_CURRENCY_LOCALE "${MCP_CURRENCY_LOCALE}"; use a BCP 47 locale such as en-US or de-DE`);
+}
+try {
+  Intl.NumberFormat(MCP_CURRENCY_LOCALE, { style: 'currency', currency: MCP_CURRENCY });
+} catch {
+  throw new Error(`Invalid MCP_CURRENCY "${MCP_CURRENCY}"; use a three-letter ISO 4217 code such as USD or EUR`);
+}
+
 export const MCP_BEARER_TOKEN = process.env.MCP_BEARER_TOKEN;
 export const MCP_AUTH_MODE = (process.env.MCP_AUTH_MODE ?? 'bearer').toLowerCase() as AuthMode;
 export const MCP_OAUTH_ISSUER_URL = process.env.MCP_OAUTH_ISSUER_URL;
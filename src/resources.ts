@@ -1,6 +1,9 @@
-import { type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import * as z from 'zod/v4';
 import { type ActualClient } from './actual/client.js';
+import { monthSchema } from './schemas/common.js';
+
+const UPCOMING_BILLS_DEFAULT_DAYS = 30;
 
 /**
  * Registers read-only MCP resources and reusable prompt templates.
@@ -64,6 +67,85 @@ export const registerResourcesAndPrompts = (server: McpServer, actualClient: Act
     }
   );
 
+  // Budget month snapshot
+  server.registerResource(
+    'budget-month',
+    new ResourceTemplate('actual://budget/{month}', { list: undefined }),
+    { mimeType: 'application/json', description: 'Budgeted, spent and balance per category for a month (YYYY-MM)' },
+    async (uri, { month }) => {
+      const budget = await actualClient.getBudgetMonth(monthSchema.parse(String(month)));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(budget, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  // Upcoming bills (default horizon)
+  server.registerResource(
+    'upcoming-bills',
+    'actual://schedules/upcoming',
+    { mimeType: 'application/json', description: `Scheduled bills due in the next ${UPCOMING_BILLS_DEFAULT_DAYS} days with amounts and accounts` },
+    async () => {
+      const bills = await actualClient.getUpcomingBills(UPCOMING_BILLS_DEFAULT_DAYS);
+      return {
+        contents: [
+          {
+            uri: 'actual://schedules/upcoming',
+            mimeType: 'application/json',
+            text: JSON.stringify(bills, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  // Upcoming bills (custom horizon)
+  server.registerResource(
+    'upcoming-bills-days',
+    new ResourceTemplate('actual://schedules/upcoming/{days}', { list: undefined }),
+    { mimeType: 'application/json', description: 'Scheduled bills due in the next N days with amounts and accounts' },
+    async (uri, { days }) => {
+      const bills = await actualClient.getUpcomingBills(z.coerce.number().int().positive().max(366).parse(String(days)));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(bills, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  // Spending trends (month-by-category matrix)
+  server.registerResource(
+    'spending-trends',
+    new ResourceTemplate('actual://reports/trends/{months}', { list: undefined }),
+    { mimeType: 'application/json', description: 'Spending per category and group for the last N full months with month-over-month and year-over-year deltas' },
+    async (uri, { months }) => {
+      const trends = await actualClient.getSpendingTrends({
+        months: z.coerce.number().int().positive().max(36).parse(String(months)),
+        rollingWindow: 3
+      });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(trends, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
   // Rules guide (static reference)
   server.registerResource(
     'rules-guide',
@@ -121,12 +203,12 @@ export const registerResourcesAndPrompts = (server: McpServer, actualClient: Act
               type: 'text' as const,
               text: [
                 'You are a budget advisor using the Actual MCP tools/resources.',
-                'Amounts are in the currency\'s smallest unit (e.g., cents for USD).',
+                'Amounts are integers in hundredths of the currency unit, returned with formatted companions; tools also accept decimal strings like "12.34".',
                 monthPart,
                 'Use these resources and tools as needed:',
                 '- Resource actual://accounts for account context.',
                 '- Resource actual://categories and actual://payees for names/IDs.',
-                '- Tool get-monthly-summary (returns totals in smallest units).',
+                '- Tool get-monthly-summary for income, expense and savings totals.',
                 '- Tool get-spending-by-category for top spending areas.',
                 '- Resource actual://insights/latest for a quick baseline summary.',
                 'Give concise advice and next steps.'
@@ -156,7 +238,7 @@ export const registerResourcesAndPrompts = (server: McpServer, actualClient: Act
               type: 'text' as const,
               text: [
                 'Help the user clean up uncategorized expenses.',
-                'Amounts are in the currency\'s smallest unit (e.g., cents for USD).',
+                'Amounts are integers in hundredths of the currency unit, returned with formatted companions; tools also accept decimal strings like "12.34".',
                 'Steps:',
                 `1) Call get-transactions with categoryId null/empty to fetch uncategorized expenses (limit to <=${maxItems}).`,
                 '2) Group by likely payee or memo to suggest categories.',
@@ -190,7 +272,7 @@ export const registerResourcesAndPrompts = (server: McpServer, actualClient: Act
               type: 'text' as const,
               text: [
                 `Provide a spending summary for ${monthLabel}.`,
-                'Amounts are in the currency\'s smallest unit (e.g., cents for USD).',
+                'Amounts are integers in hundredths of the currency unit, returned with formatted companions; tools also accept decimal strings like "12.34".',
                 'Pull data using:',
                 '- Tool get-monthly-summary (income, expenses, net savings).',
                 '- Tool get-spending-by-category (top categories).',
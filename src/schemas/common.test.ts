@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { amountSchema, positiveAmountSchema } from './common.js';
+
+describe('amountSchema', () => {
+  it('keeps integers as hundredths', () => {
+    assert.equal(amountSchema.parse(1234), 1234);
+    assert.equal(amountSchema.parse(-50), -50);
+  });
+
+  it('converts decimal strings to hundredths', () => {
+    assert.equal(amountSchema.parse('12.34'), 1234);
+    assert.equal(amountSchema.parse(' -1,050.5 '), -105050);
+    assert.equal(amountSchema.parse('+0.01'), 1);
+    assert.equal(amountSchema.parse('0.10'), 10);
+  });
+
+  it('rejects strings without a decimal point', () => {
+    for (const raw of ['12', '-1,050', '0']) assert.equal(amountSchema.safeParse(raw).success, false, raw);
+  });
+
+  it('rejects more decimals than Actual stores and malformed strings', () => {
+    for (const raw of ['12.345', '1,23.45', '12.', '.5', '1e3', 'abc']) assert.equal(amountSchema.safeParse(raw).success, false, raw);
+    assert.equal(amountSchema.safeParse(12.5).success, false);
+  });
+
+  it('checks the sign after conversion', () => {
+    assert.equal(positiveAmountSchema.parse('0.01'), 1);
+    assert.equal(positiveAmountSchema.safeParse('-0.01').success, false);
+  });
+});
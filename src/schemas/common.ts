@@ -1,10 +1,41 @@
 import * as z from 'zod/v4';
 import { type RecurConfig, type ScheduleEntity } from '@actual-app/api/@types/loot-core/src/types/models/schedule.js';
 import { type RuleActionEntity, type RuleConditionEntity } from '@actual-app/api/@types/loot-core/src/types/models/rule.js';
+import { DATE_RANGE_PATTERN } from '../actual/dates.js';
+import { AMOUNT_DECIMALS, AMOUNT_SCALE } from '../actual/format.js';
 
 export const nonEmptyString = z.string().trim().min(1);
 export const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be YYYY-MM-DD' });
-export const amountSchema = z.number().int();
+export const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Month must be YYYY-MM' });
+// Amounts are Actual's integer hundredths; decimal strings such as "12.34" or "-1,050.5" are converted.
+// Strings need a decimal point so "12" cannot be mistaken for the integer 12.
+const decimalAmountSchema = z.string().trim()
+  .regex(new RegExp(`^[-+]?(\\d{1,3}(,\\d{3})+|\\d+)\\.\\d{1,${AMOUNT_DECIMALS}}$`), {
+    message: 'Amount must be an integer in hundredths or a decimal string with a decimal point like "12.34"'
+  })
+  .transform(value => Math.round(Number(value.replace(/,/g, '')) * AMOUNT_SCALE));
+export const amountSchema = z.union([z.number().int(), decimalAmountSchema]);
+export const positiveAmountSchema = amountSchema.pipe(z.number().positive());
+export const nonNegativeAmountSchema = amountSchema.pipe(z.number().nonnegative());
+
+export const dateRangeSchema = z.string().trim().regex(DATE_RANGE_PATTERN, {
+  message: 'Range must be this-month, last-month, this-quarter, last-quarter, this-year, last-year, ytd, last-N-days, YYYY, YYYY-Qn or YYYY-MM'
+});
+
+// Either a named range or explicit dates; resolve with resolveDateInput.
+export const dateRangeShape = {
+  range: dateRangeSchema.nullish().describe('Named range resolved in the server timezone, e.g. this-month, last-month, ytd, last-90-days, 2026-Q2, 2026-03. Overrides startDate/endDate'),
+  startDate: dateSchema.nullish().describe('Start date YYYY-MM-DD (when range is not set)'),
+  endDate: dateSchema.nullish().describe('End date YYYY-MM-DD (when range is not set)')
+};
+
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+
+export const paginationShape = {
+  offset: z.number().int().nonnegative().default(0).describe('Number of items to skip (use nextOffset from the previous page)'),
+  limit: z.number().int().positive().max(500).default(100).describe('Page size (max 500)'),
+  fields: z.array(nonEmptyString).min(1).nullish().describe('Only return these fields of each item, e.g. ["date","amount","payee","category"]')
+};
 
 export const numberRangeSchema = z.object({
   num1: z.number(),
@@ -25,6 +56,31 @@ export const recurConfigSchema: z.ZodType<RecurConfig> = z.custom<RecurConfig>((
   return true;
 }, { message: 'Invalid recurrence config (requires frequency and start)' });
 
+export const scheduleAmountSchema = z.union([amountSchema, numberRangeSchema])
+  .describe('Amount as integer hundredths or a decimal string like "12.34", or { num1, num2 } range in hundredths when amountOp is isbetween');
+export const scheduleDateSchema = z.union([dateSchema, recurConfigSchema])
+  .describe('One-off date YYYY-MM-DD, or recurrence { frequency, start, interval?, patterns?, skipWeekend?, weekendSolveMode?, endMode?, endOccurrences?, endDate? }');
+export const scheduleAmountOpSchema = z.enum(['is', 'isapprox', 'isbetween']);
+
+const csvColumnSchema = z.union([nonEmptyString, z.number().int().nonnegative()])
+  .describe('Header name, or 0-based column index');
+export const statementDateFormatSchema = z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']);
+
+export const csvColumnMappingSchema = z.object({
+  date: csvColumnSchema,
+  amount: csvColumnSchema.nullish().describe('Signed amount column (negative=expense)'),
+  inflow: csvColumnSchema.nullish().describe('Use with outflow when the file has separate debit/credit columns'),
+  outflow: csvColumnSchema.nullish(),
+  payee: csvColumnSchema.nullish(),
+  notes: csvColumnSchema.nullish(),
+  importedId: csvColumnSchema.nullish().describe('Bank transaction ID column, if present'),
+  hasHeader: z.boolean().nullish().describe('Defaults to true'),
+  delimiter: z.string().length(1).nullish().describe('Defaults to ","'),
+  dateFormat: statementDateFormatSchema.nullish().describe('Defaults to YYYY-MM-DD'),
+  decimalSeparator: z.enum(['.', ',']).nullish().describe('Defaults to detecting it per amount'),
+  invertAmounts: z.boolean().nullish().describe('Flip signs, e.g. for credit card exports where charges are positive')
+}).describe('CSV column mapping');
+
 const ruleConditionSchema = z.discriminatedUnion('field', [
   z.object({
     field: z.literal('account'),
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { type ActualClient } from '../actual/client.js';
+import { registerTools } from './index.js';
+
+type ToolHandler = (args: Record<string, unknown>) => Promise<CallToolResult>;
+
+const schedule = { id: 'sch', name: 'Rent', account: 'acct-old', payee: 'payee-old', posts_transaction: false, amount: -100000, amountOp: 'is', date: '2026-03-01' };
+
+// Registers every tool against a client that only answers the lookups dry runs make.
+const registerWithFakeClient = (): Map<string, ToolHandler> => {
+  const handlers = new Map<string, ToolHandler>();
+  const server = {
+    registerTool: (name: string, _config: unknown, handler: ToolHandler) => { handlers.set(name, handler); }
+  };
+  const client = {
+    describeEntity: async (entityType: string, id: string) => entityType === 'schedule' ? schedule : { id }
+  };
+  registerTools(server as unknown as McpServer, client as unknown as ActualClient);
+  return handlers;
+};
+
+const run = async (handlers: Map<string, ToolHandler>, name: string, args: Record<string, unknown>): Promise<unknown> => {
+  const handler = handlers.get(name);
+  if (handler === undefined) throw new Error(`Tool ${name} not registered`);
+  const result = await handler(args);
+  const [content] = result.content;
+  if (content.type !== 'text') throw new Error('Expected a text result');
+  return JSON.parse(content.text);
+};
+
+describe('update-schedule dry run', () => {
+  it('previews account, payee and posting changes under the schedule\'s field names', async () => {
+    const handlers = registerWithFakeClient();
+    const preview = await run(handlers, 'update-schedule', {
+      scheduleId: 'sch', accountId: 'acct-new', payeeId: 'payee-new', postsTransaction: true, dryRun: true
+    });
+    assert.deepEqual(preview, {
+      dryRun: true,
+      action: 'update-schedule',
+      changes: [{
+        entityType: 'schedule',
+        id: 'sch',
+        before: { ...schedule, amountFormatted: '-$1,000.00' },
+        after: { ...schedule, account: 'acct-new', payee: 'payee-new', posts_transaction: true, amountFormatted: '-$1,000.00' }
+      }]
+    });
+  });
+});
@@ -2,8 +2,116 @@ import * as z from 'zod/v4';
 import { type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { type ActualClient } from '../actual/client.js';
+import { parseStatement } from '../actual/importers.js';
+import { scheduleFields } from '../actual/schedules.js';
+import { type EntityType } from '../actual/types.js';
+import { resolveDateInput, resolveDateRange } from '../actual/dates.js';
+import { withFormattedAmounts } from '../actual/format.js';
+import { MCP_DRY_RUN, MCP_READ_ONLY } from '../config.js';
 import { logger } from '../logger.js';
-import { amountSchema, dateSchema, nonEmptyString, RuleActionSchema, RuleConditionSchema } from '../schemas/common.js';
+import {
+  amountSchema,
+  csvColumnMappingSchema,
+  dateRangeSchema,
+  dateRangeShape,
+  dateSchema,
+  monthSchema,
+  nonEmptyString,
+  nonNegativeAmountSchema,
+  paginationShape,
+  positiveAmountSchema,
+  RuleActionSchema,
+  RuleConditionSchema,
+  scheduleAmountOpSchema,
+  scheduleAmountSchema,
+  scheduleDateSchema,
+  sortOrderSchema,
+  statementDateFormatSchema
+} from '../schemas/common.js';
+
+const transactionFilterShape = {
+  accountId: nonEmptyString.nullish().describe('Account ID to filter (optional)'),
+  accountIds: z.array(nonEmptyString).min(1).nullish().describe('Account IDs to filter (optional, overrides accountId)'),
+  ...dateRangeShape,
+  minAmount: amountSchema.nullish().describe('Minimum amount (positive=income, negative=expense)'),
+  maxAmount: amountSchema.nullish().describe('Maximum amount'),
+  categoryId: nonEmptyString.nullish().describe('Category ID to filter'),
+  payeeId: nonEmptyString.nullish().describe('Payee ID to filter')
+};
+
+interface Page<T> {
+  total: number
+  offset: number
+  limit: number
+  nextOffset: number | null
+  items: Array<Partial<T>>
+}
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+};
+
+const sortItems = <T>(items: T[], key: (item: T) => unknown, order: 'asc' | 'desc'): T[] => {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => compareValues(key(a), key(b)) * direction);
+};
+
+// Shared paging contract for list-returning tools: offset/limit paging, a total count and optional field projection.
+// Formatted amounts are added before projecting, so fields limits them like any other field.
+const paginate = <T extends object>(
+  items: T[],
+  { offset, limit, fields }: { offset: number, limit: number, fields?: string[] | null },
+  formatAmounts = true
+): Page<T> => {
+  const slice = items.slice(offset, offset + limit).map(item => (formatAmounts ? withFormattedAmounts(item) : item) as T);
+  const projected = fields == null
+    ? slice
+    : slice.map(item => Object.fromEntries(fields.filter(f => f in item).map(f => [f, (item as Record<string, unknown>)[f]])) as Partial<T>);
+  return {
+    total: items.length,
+    offset,
+    limit,
+    nextOffset: offset + limit < items.length ? offset + limit : null,
+    items: projected
+  };
+};
+
+const pageResult = <T extends object>(page: Page<T>): CallToolResult =>
+  ({ content: [{ type: 'text', text: JSON.stringify(page) }] });
+
+// JSON tool output: raw integer amounts with formatted currency strings next to them.
+const jsonResult = (value: unknown, formatAmounts = true): CallToolResult =>
+  ({ content: [{ type: 'text', text: JSON.stringify(formatAmounts ? withFormattedAmounts(value) : value, null, 2) }] });
+
+const enrichSchema = z.boolean().default(true).describe('Add account, payee, category and group names and formatted amounts next to IDs');
+
+const reportScopeShape = {
+  accountIds: z.array(z.string()).nullish().describe('Optional account IDs to limit the report to (default: all on-budget accounts)'),
+  includeTransfers: z.boolean().default(false).describe('Count transfers between on-budget accounts as income and expenses. Categorized transfers to off-budget accounts, such as loan or investment payments, always count as spending'),
+  includeOffBudget: z.boolean().default(false).describe('Include off-budget accounts when accountIds is not set')
+};
+
+const dryRunShape = {
+  dryRun: z.boolean().default(false).describe('Validate and return a before/after preview without writing anything')
+};
+
+interface EntityDiff {
+  entityType: EntityType | 'budget'
+  id: string | null
+  before: unknown
+  after: unknown
+}
+
+const isDryRun = (dryRun: boolean | null | undefined): boolean => MCP_DRY_RUN || dryRun === true;
+
+const definedFields = (patch: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined && value !== null));
+
+const previewResult = (action: string, changes: EntityDiff[]): CallToolResult => jsonResult({ dryRun: true, action, changes });
 
 const isDuplicateEntityError = (error: unknown): boolean => {
   const message = String(error ?? '').toLowerCase();
@@ -11,16 +119,142 @@ const isDuplicateEntityError = (error: unknown): boolean => {
 };
 
 export const registerTools = (server: McpServer, actualClient: ActualClient): void => {
+  if (MCP_READ_ONLY) logger.info('Read-only mode: write tools are not registered');
+  const registerWriteTool = (MCP_READ_ONLY ? () => undefined : server.registerTool.bind(server)) as McpServer['registerTool'];
+
+  // Dry runs resolve every referenced ID so they fail the same way the real write would.
+  const resolveReferences = async (refs: Array<[EntityType, string | null | undefined]>): Promise<void> => {
+    for (const [entityType, id] of refs) {
+      if (id != null) await actualClient.describeEntity(entityType, id);
+    }
+  };
+  const createDiff = (entityType: EntityType, fields: Record<string, unknown>): EntityDiff =>
+    ({ entityType, id: null, before: null, after: definedFields(fields) });
+  const updateDiff = async (entityType: EntityType, id: string, patch: Record<string, unknown>): Promise<EntityDiff> => {
+    const before = await actualClient.describeEntity(entityType, id);
+    return { entityType, id, before, after: { ...before, ...definedFields(patch) } };
+  };
+  const deleteDiff = async (entityType: EntityType, id: string): Promise<EntityDiff> =>
+    ({ entityType, id, before: await actualClient.describeEntity(entityType, id), after: null });
+  const budgetDiff = async (month: string, categoryId: string, patch: Record<string, unknown>): Promise<EntityDiff> => {
+    const budget = await actualClient.getBudgetMonth(month);
+    const before = budget.categoryGroups.flatMap(g => g.categories).find(c => c.id === categoryId);
+    if (before === undefined) throw new Error(`Category ${categoryId} not found in budget ${month}`);
+    return { entityType: 'budget', id: `${month}/${categoryId}`, before, after: { ...before, ...patch } };
+  };
+
   // Get Accounts
   server.registerTool(
     'get-accounts',
     {
       title: 'Get Accounts',
-      description: 'Retrieve all accounts with their current balances'
+      description: 'Retrieve accounts (paged, sorted by name)',
+      inputSchema: {
+        ...paginationShape,
+        sortOrder: sortOrderSchema.default('asc')
+      }
     },
-    async (): Promise<CallToolResult> => {
+    async (args): Promise<CallToolResult> => {
       const accounts = await actualClient.getAccounts();
-      return { content: [{ type: 'text', text: JSON.stringify(accounts, null, 2) }] };
+      return pageResult(paginate(sortItems(accounts, a => a.name, args.sortOrder), args));
+    }
+  );
+
+  // Create Account
+  registerWriteTool(
+    'create-account',
+    {
+      title: 'Create Account',
+      description: 'Create a new account with an optional opening balance',
+      inputSchema: {
+        name: nonEmptyString,
+        offbudget: z.boolean().nullish().describe('Optional; true for off-budget (tracking) accounts, defaults to false'),
+        initialBalance: amountSchema.nullish().describe('Opening balance as "1234.56" or integer hundredths (123456)'),
+        ...dryRunShape
+      }
+    },
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) return previewResult('create-account', [createDiff('account', args)]);
+      const id = await actualClient.createAccount(args);
+      return { content: [{ type: 'text', text: `Created account ${id}` }] };
+    }
+  );
+
+  // Update Account
+  registerWriteTool(
+    'update-account',
+    {
+      title: 'Update Account',
+      description: 'Rename an account or change its on/off-budget flag',
+      inputSchema: {
+        accountId: nonEmptyString,
+        newName: nonEmptyString.nullish(),
+        offbudget: z.boolean().nullish(),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) {
+        return previewResult('update-account', [await updateDiff('account', args.accountId, { name: args.newName, offbudget: args.offbudget })]);
+      }
+      await actualClient.updateAccount(args.accountId, { newName: args.newName, offbudget: args.offbudget });
+      return { content: [{ type: 'text', text: `Updated account ${args.accountId}` }] };
+    }
+  );
+
+  // Close Account
+  registerWriteTool(
+    'close-account',
+    {
+      title: 'Close Account',
+      description: 'Close an account. A non-zero balance must be moved to a transfer account; accounts without transactions are deleted instead',
+      inputSchema: {
+        accountId: nonEmptyString,
+        transferAccountId: nonEmptyString.nullish().describe('Account to receive the remaining balance (required when balance is non-zero)'),
+        transferCategoryId: nonEmptyString.nullish().describe('Optional category for the balancing transfer (needed when moving on-budget money off-budget)'),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['account', args.transferAccountId], ['category', args.transferCategoryId]]);
+        return previewResult('close-account', [await updateDiff('account', args.accountId, { closed: true })]);
+      }
+      await actualClient.closeAccount(args.accountId, {
+        transferAccountId: args.transferAccountId,
+        transferCategoryId: args.transferCategoryId
+      });
+      return { content: [{ type: 'text', text: `Closed account ${args.accountId}` }] };
+    }
+  );
+
+  // Reopen Account
+  registerWriteTool(
+    'reopen-account',
+    {
+      title: 'Reopen Account',
+      description: 'Reopen a closed account',
+      inputSchema: { accountId: nonEmptyString, ...dryRunShape }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) return previewResult('reopen-account', [await updateDiff('account', args.accountId, { closed: false })]);
+      await actualClient.reopenAccount(args.accountId);
+      return { content: [{ type: 'text', text: `Reopened account ${args.accountId}` }] };
+    }
+  );
+
+  // Delete Account
+  registerWriteTool(
+    'delete-account',
+    {
+      title: 'Delete Account',
+      description: 'Permanently delete an account and its transactions',
+      inputSchema: { accountId: nonEmptyString, ...dryRunShape }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) return previewResult('delete-account', [await deleteDiff('account', args.accountId)]);
+      await actualClient.deleteAccount(args.accountId);
+      return { content: [{ type: 'text', text: `Deleted account ${args.accountId}` }] };
     }
   );
 
@@ -29,26 +263,47 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
     'get-transactions',
     {
       title: 'Get Transactions',
-      description: 'Retrieve transactions with optional filters',
+      description: 'Retrieve transactions with optional filters, paged and sorted (newest first by default). Transfers are flagged with isTransfer and transferAccountId (the account on the other side); split transactions have isSplit and their child lines nested under splits',
       inputSchema: {
-        accountId: nonEmptyString.nullish().describe('Account ID to filter (optional)'),
-        accountIds: z.array(nonEmptyString).min(1).nullish().describe('Account IDs to filter (optional, overrides accountId)'),
-        startDate: dateSchema.describe('Start date YYYY-MM-DD'),
-        endDate: dateSchema.describe('End date YYYY-MM-DD'),
-        minAmount: amountSchema.nullish().describe('Minimum amount (positive=income, negative=expense)'),
-        maxAmount: amountSchema.nullish().describe('Maximum amount'),
-        categoryId: nonEmptyString.nullish().describe('Category ID to filter'),
-        payeeId: nonEmptyString.nullish().describe('Payee ID to filter')
+        ...transactionFilterShape,
+        ...paginationShape,
+        sortBy: z.enum(['date', 'amount', 'payee']).default('date'),
+        sortOrder: sortOrderSchema.default('desc'),
+        enrich: enrichSchema
       }
     },
-    async args => {
-      const txns = await actualClient.getTransactions(args);
-      return { content: [{ type: 'text', text: JSON.stringify(txns, null, 2) }] };
+    async ({ offset, limit, fields, sortBy, sortOrder, enrich, range, ...filters }) => {
+      const { startDate, endDate } = resolveDateInput({ range, ...filters });
+      const txns = await actualClient.annotateTransactions(await actualClient.getTransactions({ ...filters, startDate, endDate }));
+      const payeeNames = new Map(sortBy === 'payee' ? (await actualClient.getPayees()).map(p => [p.id, p.name]) : []);
+      const sorted = sortItems(txns, txn => sortBy === 'payee' ? payeeNames.get(txn.payee ?? '') : txn[sortBy], sortOrder);
+      const rows = enrich ? await actualClient.enrichTransactions(sorted) : sorted;
+      return pageResult(paginate(rows, { offset, limit, fields }, enrich));
     }
   );
 
-  // Add Transaction
+  // Search Transactions
   server.registerTool(
+    'search-transactions',
+    {
+      title: 'Search Transactions',
+      description: 'Case-insensitive, typo-tolerant search over notes, payee names, imported payees, and account and category names. Results are ranked by relevance and paged',
+      inputSchema: {
+        query: nonEmptyString.describe('Words to look for, e.g. "home depot"'),
+        startDate: dateSchema.nullish().describe('Optional start date YYYY-MM-DD'),
+        endDate: dateSchema.nullish().describe('Optional end date YYYY-MM-DD (defaults to today)'),
+        accountIds: z.array(nonEmptyString).min(1).nullish().describe('Limit the search to these accounts'),
+        ...paginationShape
+      }
+    },
+    async ({ offset, limit, fields, ...query }) => {
+      const hits = await actualClient.searchTransactions(query);
+      return pageResult(paginate(hits, { offset, limit, fields }));
+    }
+  );
+
+  // Add Transaction
+  registerWriteTool(
     'add-transaction',
     {
       title: 'Add Transaction',
@@ -56,7 +311,7 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
       inputSchema: {
         accountId: nonEmptyString,
         date: dateSchema.describe('YYYY-MM-DD'),
-        amount: amountSchema.describe('Integer amount in smallest currency unit (e.g., $1.23 -> 123). Positive=income, negative=expense'),
+        amount: amountSchema.describe('Amount as "12.34" or integer hundredths (1234). Positive=income, negative=expense'),
         payeeId: nonEmptyString.nullish(),
         payeeName: nonEmptyString.nullish().describe('Used only if payeeId is not provided'),
         categoryId: nonEmptyString.nullish(),
@@ -68,17 +323,90 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
           amount: amountSchema,
           categoryId: nonEmptyString.nullish(),
           notes: z.string().nullish()
-        })).optional()
+        })).optional(),
+        ...dryRunShape
       }
     },
-    async args => {
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) {
+        await resolveReferences([
+          ['account', args.accountId],
+          ['payee', args.payeeId],
+          ['category', args.categoryId],
+          ...(args.subtransactions ?? []).map((st): [EntityType, string | null | undefined] => ['category', st.categoryId])
+        ]);
+        return previewResult('add-transaction', [createDiff('transaction', args)]);
+      }
       const { transactionId, importedId } = await actualClient.addTransaction(args);
       return { content: [{ type: 'text', text: `Created transaction ${transactionId} (imported_id ${importedId})` }] };
     }
   );
 
+  // Import Transactions
+  registerWriteTool(
+    'import-transactions',
+    {
+      title: 'Import Transactions',
+      description: 'Import a bank statement (CSV, OFX/QFX or QIF) into an account. Re-importing the same file is deduplicated by imported_id. Use dryRun to preview what would be added, matched or skipped',
+      inputSchema: {
+        accountId: nonEmptyString,
+        format: z.enum(['csv', 'ofx', 'qfx', 'qif']),
+        contents: nonEmptyString.describe('Raw statement file contents'),
+        csvMapping: csvColumnMappingSchema.nullish().describe('Required for CSV'),
+        dateFormat: statementDateFormatSchema.nullish().describe('Date format for QIF (defaults to MM/DD/YYYY) or CSV when not set in csvMapping'),
+        decimalSeparator: z.enum(['.', ',']).nullish().describe('Decimal separator for all amounts unless csvMapping sets one (default: detected per amount)'),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      const transactions = parseStatement(args.accountId, args.format, args.contents, {
+        csvMapping: args.csvMapping,
+        dateFormat: args.dateFormat,
+        decimalSeparator: args.decimalSeparator
+      });
+      const result = await actualClient.importTransactions(args.accountId, transactions, isDryRun(args.dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Create Transfer
+  registerWriteTool(
+    'create-transfer',
+    {
+      title: 'Create Transfer',
+      description: 'Move money between two accounts. Uses the destination account\'s transfer payee so Actual creates the linked counterpart transaction',
+      inputSchema: {
+        fromAccountId: nonEmptyString,
+        toAccountId: nonEmptyString,
+        amount: positiveAmountSchema.describe('Positive amount to move, as "12.34" or integer hundredths (1234)'),
+        date: dateSchema.describe('YYYY-MM-DD'),
+        notes: z.string().nullish(),
+        categoryId: nonEmptyString.nullish().describe('Only needed when moving money from an on-budget to an off-budget account'),
+        cleared: z.boolean().nullish(),
+        ...dryRunShape
+      }
+    },
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) {
+        await resolveReferences([['account', args.fromAccountId], ['account', args.toAccountId], ['category', args.categoryId]]);
+        return previewResult('create-transfer', [
+          createDiff('transaction', { account: args.fromAccountId, date: args.date, amount: -args.amount, notes: args.notes, category: args.categoryId }),
+          createDiff('transaction', { account: args.toAccountId, date: args.date, amount: args.amount, notes: args.notes })
+        ]);
+      }
+      const { transactionId, counterpartTransactionId } = await actualClient.createTransfer(args);
+      return {
+        content: [{
+          type: 'text',
+          text: `Created transfer ${transactionId} from ${args.fromAccountId} to ${args.toAccountId}` +
+            (counterpartTransactionId !== null ? ` (counterpart ${counterpartTransactionId})` : '')
+        }]
+      };
+    }
+  );
+
   // Update Transaction
-  server.registerTool(
+  registerWriteTool(
     'update-transaction',
     {
       title: 'Update Transaction',
@@ -91,38 +419,172 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
         categoryId: nonEmptyString.nullish(),
         notes: z.string().nullish(),
         cleared: z.boolean().nullish(),
-        reconciled: z.boolean().nullish()
+        reconciled: z.boolean().nullish(),
+        ...dryRunShape
       }
     },
-    async ({ transactionId, ...updated }) => {
+    async ({ transactionId, dryRun, ...updated }) => {
       const sanitized = {
         amount: updated.amount ?? undefined,
         date: updated.date ?? undefined,
-        payeeId: updated.payeeId ?? undefined,
-        categoryId: updated.categoryId ?? undefined,
+        payee: updated.payeeId ?? undefined,
+        category: updated.categoryId ?? undefined,
         notes: updated.notes ?? undefined,
         cleared: updated.cleared ?? undefined,
         reconciled: updated.reconciled ?? undefined
       };
+      if (isDryRun(dryRun)) {
+        await resolveReferences([['payee', updated.payeeId], ['category', updated.categoryId]]);
+        return previewResult('update-transaction', [await updateDiff('transaction', transactionId, sanitized)]);
+      }
       await actualClient.updateTransaction(transactionId, sanitized);
       return { content: [{ type: 'text', text: `Updated transaction ${transactionId}` }] };
     }
   );
 
-  // Delete Transaction
+  // Update Transaction Splits
+  registerWriteTool(
+    'update-transaction-splits',
+    {
+      title: 'Update Transaction Splits',
+      description: 'Split, re-split or unsplit an existing transaction. Split line amounts must sum to the transaction amount; replacing with an empty list unsplits it',
+      inputSchema: {
+        transactionId: nonEmptyString.describe('Parent (or plain) transaction ID'),
+        mode: z.enum(['replace', 'add', 'remove']).describe('replace: splits become the full set of lines; add: append splits; remove: drop removeIds'),
+        splits: z.array(z.object({
+          id: nonEmptyString.nullish().describe('Existing split line ID to keep (replace mode)'),
+          amount: amountSchema.describe('Amount as "12.34" or integer hundredths (1234); same sign as the parent'),
+          categoryId: nonEmptyString.nullish(),
+          payeeId: nonEmptyString.nullish().describe('Defaults to the parent payee'),
+          notes: z.string().nullish()
+        })).nullish(),
+        removeIds: z.array(nonEmptyString).nullish().describe('Split line IDs to remove (remove mode)'),
+        amount: amountSchema.nullish().describe('Optional new parent amount the lines must sum to'),
+        ...dryRunShape
+      }
+    },
+    async ({ transactionId, dryRun, ...input }) => {
+      if (isDryRun(dryRun)) {
+        await resolveReferences((input.splits ?? []).flatMap((line): Array<[EntityType, string | null | undefined]> => [['category', line.categoryId], ['payee', line.payeeId]]));
+        const before = await actualClient.describeEntity('transaction', transactionId);
+        const after = await actualClient.updateTransactionSplits(transactionId, input, true);
+        return previewResult('update-transaction-splits', [{ entityType: 'transaction', id: transactionId, before, after }]);
+      }
+      const updated = await actualClient.updateTransactionSplits(transactionId, input);
+      const [described] = await actualClient.annotateTransactions([updated]);
+      return jsonResult(described);
+    }
+  );
+
+  // Bulk Update Transactions
+  registerWriteTool(
+    'bulk-update-transactions',
+    {
+      title: 'Bulk Update Transactions',
+      description: 'Apply one patch (set category, set payee, append notes, mark cleared) to every transaction matching the get-transactions filters. Returns a preview; changes are written only when confirm is true',
+      inputSchema: {
+        ...transactionFilterShape,
+        setCategoryId: nonEmptyString.nullish().describe('Category to assign (split parents keep their child categories)'),
+        setPayeeId: nonEmptyString.nullish().describe('Payee to assign'),
+        appendNotes: nonEmptyString.nullish().describe('Text appended to existing notes'),
+        setCleared: z.boolean().nullish(),
+        confirm: z.boolean().default(false).describe('Set true to apply the patch'),
+        ...dryRunShape
+      }
+    },
+    async ({ setCategoryId, setPayeeId, appendNotes, setCleared, confirm, dryRun, range, ...filters }) => {
+      const { startDate, endDate } = resolveDateInput({ range, ...filters });
+      if (setCategoryId == null && setPayeeId == null && appendNotes == null && setCleared == null) {
+        return { content: [{ type: 'text', text: 'No patch given: set at least one of setCategoryId, setPayeeId, appendNotes or setCleared' }], isError: true };
+      }
+      const result = await actualClient.bulkUpdateTransactions({ ...filters, startDate, endDate }, {
+        categoryId: setCategoryId,
+        payeeId: setPayeeId,
+        appendNotes,
+        cleared: setCleared
+      }, confirm && !isDryRun(dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Find Duplicate Transactions
   server.registerTool(
+    'find-duplicate-transactions',
+    {
+      title: 'Find Duplicate Transactions',
+      description: 'Scan a date range for likely duplicates: same account, same or near amount, close dates and a similar payee (pairs with unrelated payees are never reported). Returns candidate groups with a confidence score and a suggested copy to keep',
+      inputSchema: {
+        startDate: dateSchema.describe('Start date YYYY-MM-DD'),
+        endDate: dateSchema.describe('End date YYYY-MM-DD'),
+        accountIds: z.array(nonEmptyString).min(1).nullish(),
+        dayTolerance: z.number().int().nonnegative().max(31).default(3).describe('Maximum days between duplicates'),
+        amountTolerance: nonNegativeAmountSchema.default(0).describe('Maximum amount difference, as "0.50" or integer hundredths (50)'),
+        minConfidence: z.number().min(0).max(1).default(0.7).describe('Minimum confidence (0-1) for a pair to be reported'),
+        ...paginationShape
+      }
+    },
+    async ({ offset, limit, fields, ...input }) => {
+      const groups = await actualClient.findDuplicateTransactions(input);
+      return pageResult(paginate(groups, { offset, limit, fields }));
+    }
+  );
+
+  // Resolve Duplicates
+  registerWriteTool(
+    'resolve-duplicates',
+    {
+      title: 'Resolve Duplicates',
+      description: 'Delete the extra copies in each duplicate group, keeping keepId or else the reconciled/categorized/cleared copy. Reconciled extras are never deleted',
+      inputSchema: {
+        groups: z.array(z.object({
+          transactionIds: z.array(nonEmptyString).min(2),
+          keepId: nonEmptyString.nullish()
+        })).min(1),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      const result = await actualClient.resolveDuplicates(args.groups, isDryRun(args.dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Delete Transaction
+  registerWriteTool(
     'delete-transaction',
     {
       title: 'Delete Transaction',
       description: 'Remove a transaction',
-      inputSchema: { transactionId: nonEmptyString }
+      inputSchema: { transactionId: nonEmptyString, ...dryRunShape }
     },
-    async ({ transactionId }) => {
+    async ({ transactionId, dryRun }) => {
+      if (isDryRun(dryRun)) return previewResult('delete-transaction', [await deleteDiff('transaction', transactionId)]);
       await actualClient.deleteTransaction(transactionId);
       return { content: [{ type: 'text', text: `Deleted transaction ${transactionId}` }] };
     }
   );
 
+  // Reconcile Account
+  registerWriteTool(
+    'reconcile-account',
+    {
+      title: 'Reconcile Account',
+      description: 'Compare a bank statement balance with the cleared balance, list uncleared transactions that may explain the gap, and on confirm lock cleared transactions as reconciled. Call without confirm first to review',
+      inputSchema: {
+        accountId: nonEmptyString,
+        statementDate: dateSchema.describe('Statement end date YYYY-MM-DD'),
+        statementBalance: amountSchema.describe('Statement ending balance as "1234.56" or integer hundredths (123456)'),
+        confirm: z.boolean().nullish().describe('Set true to mark cleared transactions as reconciled'),
+        createAdjustment: z.boolean().nullish().describe('On confirm, post a cleared balancing transaction for any remaining difference'),
+        ...dryRunShape
+      }
+    },
+    async ({ dryRun, ...args }) => {
+      const result = await actualClient.reconcileAccount({ ...args, confirm: args.confirm === true && !isDryRun(dryRun) });
+      return jsonResult(result);
+    }
+  );
+
   // Get Balance History
   server.registerTool(
     'get-balance-history',
@@ -131,13 +593,53 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
       description: 'Compute balance history for an account over a date range',
       inputSchema: {
         accountId: nonEmptyString,
-        startDate: dateSchema.describe('YYYY-MM-DD'),
-        endDate: dateSchema.describe('YYYY-MM-DD')
+        ...dateRangeShape,
+        enrich: enrichSchema
+      }
+    },
+    async args => {
+      const { startDate, endDate } = resolveDateInput(args);
+      const history = await actualClient.getBalanceHistory(args.accountId, startDate, endDate);
+      const result = args.enrich ? await actualClient.enrichBalanceHistory(args.accountId, history) : history;
+      return jsonResult(result, args.enrich);
+    }
+  );
+
+  // Get Net Worth History
+  server.registerTool(
+    'get-net-worth-history',
+    {
+      title: 'Net Worth History',
+      description: 'Total assets, liabilities and net worth at the end of each month or week across all accounts, split into on-budget and off-budget accounts. Accounts with a negative balance count as liabilities. Closed accounts count until their last transaction. netWorthChange runs from the balance just before startDate to the last point',
+      inputSchema: {
+        ...dateRangeShape,
+        interval: z.enum(['month', 'week']).default('month').describe('Point spacing: month ends or week ends (Sunday)'),
+        accountIds: z.array(z.string()).nullish().describe('Optional account IDs to include (default: all accounts)')
       }
     },
     async args => {
-      const history = await actualClient.getBalanceHistory(args.accountId, args.startDate, args.endDate);
-      return { content: [{ type: 'text', text: JSON.stringify(history, null, 2) }] };
+      const { startDate, endDate } = resolveDateInput(args);
+      return jsonResult(await actualClient.getNetWorthHistory({ startDate, endDate, interval: args.interval, accountIds: args.accountIds }));
+    }
+  );
+
+  // Forecast Cash Flow
+  server.registerTool(
+    'forecast-cash-flow',
+    {
+      title: 'Forecast Cash Flow',
+      description: 'Project each account\'s balance day by day from today using scheduled transactions and, optionally, recurring patterns detected in history. Flags dates when a balance drops below the threshold',
+      inputSchema: {
+        horizonDays: z.number().int().positive().max(366).default(90).describe('Number of days to project'),
+        threshold: amountSchema.nullish().describe('Alert when a balance goes below this amount ("100.00" or integer hundredths); defaults to 0'),
+        accountIds: z.array(nonEmptyString).min(1).nullish().describe('Accounts to forecast (defaults to all open accounts)'),
+        includeDetectedPatterns: z.boolean().nullish().describe('Also project recurring income/expenses detected in history'),
+        lookbackMonths: z.number().int().positive().max(24).nullish().describe('History used for pattern detection; defaults to 6')
+      }
+    },
+    async args => {
+      const forecast = await actualClient.forecastCashFlow(args);
+      return jsonResult(forecast);
     }
   );
 
@@ -146,15 +648,111 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
     'get-spending-by-category',
     {
       title: 'Spending By Category',
-      description: 'Breakdown of spending by category for a date range',
+      description: 'Breakdown of spending by category for a date range, net of refunds with split lines counted in their own categories. Transfers and off-budget accounts are excluded unless requested',
+      inputSchema: {
+        ...dateRangeShape,
+        ...reportScopeShape,
+        enrich: enrichSchema
+      }
+    },
+    async args => {
+      const { startDate, endDate } = resolveDateInput(args);
+      const breakdown = await actualClient.getSpendingByCategory(startDate, endDate, args);
+      const result = args.enrich ? await actualClient.enrichCategorySpending(breakdown) : breakdown;
+      return jsonResult(result, args.enrich);
+    }
+  );
+
+  // Get Spending By Payee
+  server.registerTool(
+    'get-spending-by-payee',
+    {
+      title: 'Spending By Payee',
+      description: 'Where the money goes: total spend (net of refunds), transaction count, average ticket, last transaction date and top categories per payee for a date range. Income categories, uncategorized inflows, payees with more refunds than spending, transfers and off-budget accounts are excluded unless requested',
+      inputSchema: {
+        ...dateRangeShape,
+        ...reportScopeShape,
+        groupByMerchant: z.boolean().default(false).describe('Combine payees with the same normalized merchant name, e.g. "AMAZON.COM*2K4" and "Amazon"'),
+        topCategories: z.number().int().min(0).max(10).default(3).describe('Top categories to list per payee'),
+        ...paginationShape,
+        sortBy: z.enum(['total', 'transactionCount', 'averageTicket', 'lastDate', 'payeeName']).default('total'),
+        sortOrder: sortOrderSchema.default('desc')
+      }
+    },
+    async args => {
+      const { startDate, endDate } = resolveDateInput(args);
+      const payees = await actualClient.getSpendingByPayee(startDate, endDate, args);
+      return pageResult(paginate(sortItems(payees, p => p[args.sortBy], args.sortOrder), args));
+    }
+  );
+
+  // Get Category Rollup
+  server.registerTool(
+    'get-category-rollup',
+    {
+      title: 'Category Rollup',
+      description: 'Expense and income totals per category and category group for a date range, with each share of total spend or income. Split lines count toward their own categories and refunds net against spending in the same category. Transfers and off-budget accounts are excluded unless requested',
+      inputSchema: {
+        ...dateRangeShape,
+        ...reportScopeShape
+      }
+    },
+    async args => {
+      const { startDate, endDate } = resolveDateInput(args);
+      return jsonResult(await actualClient.getCategoryRollup(startDate, endDate, args));
+    }
+  );
+
+  // Get Spending Trends
+  server.registerTool(
+    'get-spending-trends',
+    {
+      title: 'Spending Trends',
+      description: 'Month-by-category spending matrix over N months with month-over-month and year-over-year deltas, rolling averages and subtotals per category group. Spending is net of refunds and split lines are counted individually',
+      inputSchema: {
+        months: z.number().int().min(1).max(36).default(12).describe('Number of months to show (default 12)'),
+        endMonth: monthSchema.nullish().describe('Last month to show YYYY-MM (default: last full month)'),
+        rollingWindow: z.number().int().min(1).max(12).default(3).describe('Months in the rolling average, including the current one (default 3)'),
+        categoryIds: z.array(z.string()).nullish().describe('Optional category IDs to limit the matrix to')
+      }
+    },
+    async args => jsonResult(await actualClient.getSpendingTrends(args))
+  );
+
+  // Get Tags
+  server.registerTool(
+    'get-tags',
+    {
+      title: 'Get Tags',
+      description: 'List every #tag used in transaction notes with how many lines use it and their total. Tags on a split parent count for each of its lines',
+      inputSchema: {
+        startDate: dateSchema.nullish().describe('Optional start date YYYY-MM-DD (default: all history)'),
+        endDate: dateSchema.nullish().describe('Optional end date YYYY-MM-DD (default: today)'),
+        ...paginationShape
+      }
+    },
+    async args => {
+      const tags = await actualClient.getTags(args.startDate, args.endDate);
+      return pageResult(paginate(tags, args));
+    }
+  );
+
+  // Get Spending By Tag
+  server.registerTool(
+    'get-spending-by-tag',
+    {
+      title: 'Spending By Tag',
+      description: 'Income, expenses, net and per-category expenses for each #tag in notes over a date range. Split lines are counted individually',
       inputSchema: {
         startDate: dateSchema,
-        endDate: dateSchema
+        endDate: dateSchema,
+        tags: z.array(nonEmptyString).min(1).nullish().describe('Only report these tags, e.g. ["vacation2026", "#reimbursable"]'),
+        ...paginationShape
       }
     },
     async args => {
-      const breakdown = await actualClient.getSpendingByCategory(args.startDate, args.endDate);
-      return { content: [{ type: 'text', text: JSON.stringify(breakdown, null, 2) }] };
+      const report = await actualClient.getSpendingByTag(args.startDate, args.endDate, args.tags);
+      return pageResult(paginate(report, args));
     }
   );
 
@@ -163,16 +761,17 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
     'get-category-groups',
     {
       title: 'Get Category Groups',
-      description: 'Retrieve categories grouped by category group'
+      description: 'Retrieve categories grouped by category group (paged by group)',
+      inputSchema: paginationShape
     },
-    async () => {
+    async args => {
       const groups = await actualClient.getGroupedCategories();
-      return { content: [{ type: 'text', text: JSON.stringify(groups, null, 2) }] };
+      return pageResult(paginate(groups, args));
     }
   );
 
   // Create Category
-  server.registerTool(
+  registerWriteTool(
     'create-category',
     {
       title: 'Create Category',
@@ -181,10 +780,15 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
         groupId: nonEmptyString,
         categoryName: nonEmptyString,
         isIncome: z.boolean().nullish().describe('Optional; defaults to false'),
-        hidden: z.boolean().nullish().describe('Optional; defaults to false')
+        hidden: z.boolean().nullish().describe('Optional; defaults to false'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['category-group', args.groupId]]);
+        return previewResult('create-category', [createDiff('category', { name: args.categoryName, group_id: args.groupId })]);
+      }
       try {
         const id = await actualClient.createCategory(args.groupId, args.categoryName);
         return { content: [{ type: 'text', text: `Created category ${id}` }] };
@@ -199,7 +803,7 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   );
 
   // Update Category
-  server.registerTool(
+  registerWriteTool(
     'update-category',
     {
       title: 'Update Category',
@@ -207,34 +811,44 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
       inputSchema: {
         categoryId: nonEmptyString,
         newName: nonEmptyString.nullish(),
-        newGroupId: nonEmptyString.nullish()
+        newGroupId: nonEmptyString.nullish(),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['category-group', args.newGroupId]]);
+        return previewResult('update-category', [await updateDiff('category', args.categoryId, { name: args.newName, group_id: args.newGroupId })]);
+      }
       await actualClient.updateCategory(args.categoryId, { newName: args.newName, newGroupId: args.newGroupId });
       return { content: [{ type: 'text', text: `Updated category ${args.categoryId}` }] };
     }
   );
 
   // Delete Category
-  server.registerTool(
+  registerWriteTool(
     'delete-category',
     {
       title: 'Delete Category',
       description: 'Delete a category',
       inputSchema: {
         categoryId: nonEmptyString,
-        transferCategoryId: nonEmptyString.nullish().describe('Optional category to transfer remaining amounts into')
+        transferCategoryId: nonEmptyString.nullish().describe('Optional category to transfer remaining amounts into'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['category', args.transferCategoryId]]);
+        return previewResult('delete-category', [await deleteDiff('category', args.categoryId)]);
+      }
       await actualClient.deleteCategory(args.categoryId, args.transferCategoryId ?? undefined);
       return { content: [{ type: 'text', text: `Deleted category ${args.categoryId}` }] };
     }
   );
 
   // Create Category Group
-  server.registerTool(
+  registerWriteTool(
     'create-category-group',
     {
       title: 'Create Category Group',
@@ -242,10 +856,14 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
       inputSchema: {
         groupName: nonEmptyString,
         isIncomeGroup: z.boolean().default(false),
-        hidden: z.boolean().nullish().describe('Optional; defaults to false')
+        hidden: z.boolean().nullish().describe('Optional; defaults to false'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        return previewResult('create-category-group', [createDiff('category-group', { name: args.groupName, is_income: args.isIncomeGroup })]);
+      }
       try {
         const id = await actualClient.createCategoryGroup(args.groupName, args.isIncomeGroup);
         return { content: [{ type: 'text', text: `Created category group ${id}` }] };
@@ -260,58 +878,89 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   );
 
   // Update Category Group
-  server.registerTool(
+  registerWriteTool(
     'update-category-group',
     {
       title: 'Update Category Group',
       description: 'Update a category group name',
       inputSchema: {
         groupId: nonEmptyString,
-        newName: nonEmptyString
+        newName: nonEmptyString,
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        return previewResult('update-category-group', [await updateDiff('category-group', args.groupId, { name: args.newName })]);
+      }
       await actualClient.updateCategoryGroup(args.groupId, args.newName);
       return { content: [{ type: 'text', text: `Updated category group ${args.groupId}` }] };
     }
   );
 
   // Delete Category Group
-  server.registerTool(
+  registerWriteTool(
     'delete-category-group',
     {
       title: 'Delete Category Group',
       description: 'Delete a category group',
       inputSchema: {
         groupId: nonEmptyString,
-        transferCategoryId: nonEmptyString.nullish().describe('Optional category to transfer remaining amounts into')
+        transferCategoryId: nonEmptyString.nullish().describe('Optional category to transfer remaining amounts into'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['category', args.transferCategoryId]]);
+        return previewResult('delete-category-group', [await deleteDiff('category-group', args.groupId)]);
+      }
       await actualClient.deleteCategoryGroup(args.groupId, args.transferCategoryId ?? undefined);
       return { content: [{ type: 'text', text: `Deleted category group ${args.groupId}` }] };
     }
   );
 
-  // Create Payee
+  // Get Payees
   server.registerTool(
+    'get-payees',
+    {
+      title: 'Get Payees',
+      description: 'List payees (paged, sorted by name). Transfer payees carry transfer_acct',
+      inputSchema: {
+        ...paginationShape,
+        sortOrder: sortOrderSchema.default('asc')
+      }
+    },
+    async args => {
+      const payees = await actualClient.getPayees();
+      return pageResult(paginate(sortItems(payees, p => p.name, args.sortOrder), args));
+    }
+  );
+
+  // Create Payee
+  registerWriteTool(
     'create-payee',
     {
       title: 'Create Payee',
       description: 'Create a new payee',
       inputSchema: {
         payeeName: nonEmptyString,
-        transferAccountId: nonEmptyString.nullish().describe('Optional transfer account ID')
+        transferAccountId: nonEmptyString.nullish().describe('Optional transfer account ID'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['account', args.transferAccountId]]);
+        return previewResult('create-payee', [createDiff('payee', { name: args.payeeName, transfer_acct: args.transferAccountId })]);
+      }
       const id = await actualClient.createPayee(args.payeeName, args.transferAccountId);
       return { content: [{ type: 'text', text: `Created payee ${id}` }] };
     }
   );
 
   // Update Payee
-  server.registerTool(
+  registerWriteTool(
     'update-payee',
     {
       title: 'Update Payee',
@@ -319,10 +968,15 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
       inputSchema: {
         payeeId: nonEmptyString,
         newName: nonEmptyString.nullish(),
-        newTransferAccountId: nonEmptyString.nullish().describe('Optional transfer account ID')
+        newTransferAccountId: nonEmptyString.nullish().describe('Optional transfer account ID'),
+        ...dryRunShape
       }
     },
     async args => {
+      if (isDryRun(args.dryRun)) {
+        await resolveReferences([['account', args.newTransferAccountId]]);
+        return previewResult('update-payee', [await updateDiff('payee', args.payeeId, { name: args.newName, transfer_acct: args.newTransferAccountId })]);
+      }
       await actualClient.updatePayee(args.payeeId, {
         newName: args.newName,
         newTransferAccountId: args.newTransferAccountId
@@ -332,14 +986,15 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   );
 
   // Delete Payee
-  server.registerTool(
+  registerWriteTool(
     'delete-payee',
     {
       title: 'Delete Payee',
       description: 'Delete a payee',
-      inputSchema: { payeeId: nonEmptyString }
+      inputSchema: { payeeId: nonEmptyString, ...dryRunShape }
     },
     async args => {
+      if (isDryRun(args.dryRun)) return previewResult('delete-payee', [await deleteDiff('payee', args.payeeId)]);
       await actualClient.deletePayee(args.payeeId);
       return { content: [{ type: 'text', text: `Deleted payee ${args.payeeId}` }] };
     }
@@ -348,15 +1003,19 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   // Get Rules
   server.registerTool(
     'get-rules',
-    { title: 'Get Rules', description: 'List transaction rules' },
-    async () => {
+    {
+      title: 'Get Rules',
+      description: 'List transaction rules (paged)',
+      inputSchema: paginationShape
+    },
+    async args => {
       const rules = await actualClient.getRules();
-      return { content: [{ type: 'text', text: JSON.stringify(rules, null, 2) }] };
+      return pageResult(paginate(rules, args));
     }
   );
 
   // Create Rule
-  server.registerTool(
+  registerWriteTool(
     'create-rule',
     {
       title: 'Create Rule',
@@ -365,10 +1024,12 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
         stage: z.enum(['pre', 'post']).nullish().describe('When to run the rule (pre/post)'),
         conditionsOp: z.enum(['and', 'or']).default('and'),
         conditions: z.array(RuleConditionSchema).describe('Rule conditions; see Actual rule schema'),
-        actions: z.array(RuleActionSchema).describe('Rule actions; see Actual rule schema')
+        actions: z.array(RuleActionSchema).describe('Rule actions; see Actual rule schema'),
+        ...dryRunShape
       }
     },
-    async args => {
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) return previewResult('create-rule', [createDiff('rule', args)]);
       const created = await actualClient.createRule({
         stage: args.stage ?? null,
         conditionsOp: args.conditionsOp ?? 'and',
@@ -380,7 +1041,7 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   );
 
   // Update Rule
-  server.registerTool(
+  registerWriteTool(
     'update-rule',
     {
       title: 'Update Rule',
@@ -390,10 +1051,15 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
         stage: z.enum(['pre', 'post']).nullish(),
         conditionsOp: z.enum(['and', 'or']).nullish(),
         conditions: z.array(RuleConditionSchema).nullish(),
-        actions: z.array(RuleActionSchema).nullish()
+        actions: z.array(RuleActionSchema).nullish(),
+        ...dryRunShape
       }
     },
-    async args => {
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) {
+        const { ruleId, ...patch } = args;
+        return previewResult('update-rule', [await updateDiff('rule', ruleId, patch)]);
+      }
       const updated = await actualClient.updateRule(args.ruleId, {
         stage: args.stage ?? undefined,
         conditionsOp: args.conditionsOp ?? undefined,
@@ -405,25 +1071,232 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
   );
 
   // Delete Rule
-  server.registerTool(
+  registerWriteTool(
     'delete-rule',
     {
       title: 'Delete Rule',
       description: 'Delete a transaction rule',
-      inputSchema: { ruleId: nonEmptyString }
+      inputSchema: { ruleId: nonEmptyString, ...dryRunShape }
     },
     async args => {
+      if (isDryRun(args.dryRun)) return previewResult('delete-rule', [await deleteDiff('rule', args.ruleId)]);
       await actualClient.deleteRule(args.ruleId);
       return { content: [{ type: 'text', text: `Deleted rule ${args.ruleId}` }] };
     }
   );
 
+  // Get Budget Month
+  server.registerTool(
+    'get-budget-month',
+    {
+      title: 'Get Budget Month',
+      description: 'Budgeted, spent and balance per category and group for a month, plus the amount left to budget. Amounts are integer hundredths with formatted companions; spent is negative',
+      inputSchema: {
+        month: monthSchema.describe('Budget month YYYY-MM')
+      }
+    },
+    async args => {
+      const budget = await actualClient.getBudgetMonth(args.month);
+      return jsonResult(budget);
+    }
+  );
+
+  // Set Budget Amount
+  registerWriteTool(
+    'set-budget-amount',
+    {
+      title: 'Set Budget Amount',
+      description: 'Set the budgeted amount for a category in a month',
+      inputSchema: {
+        month: monthSchema.describe('Budget month YYYY-MM'),
+        categoryId: nonEmptyString,
+        amount: amountSchema.describe('Budgeted amount as "250.00" or integer hundredths (25000)'),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) return previewResult('set-budget-amount', [await budgetDiff(args.month, args.categoryId, { budgeted: args.amount })]);
+      await actualClient.setBudgetAmount(args.month, args.categoryId, args.amount);
+      return { content: [{ type: 'text', text: `Set budget for category ${args.categoryId} in ${args.month} to ${args.amount}` }] };
+    }
+  );
+
+  // Set Budget Carryover
+  registerWriteTool(
+    'set-budget-carryover',
+    {
+      title: 'Set Budget Carryover',
+      description: 'Enable or disable rolling overspending over to the next month for a category',
+      inputSchema: {
+        month: monthSchema.describe('Budget month YYYY-MM'),
+        categoryId: nonEmptyString,
+        enabled: z.boolean(),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) return previewResult('set-budget-carryover', [await budgetDiff(args.month, args.categoryId, { carryover: args.enabled })]);
+      await actualClient.setBudgetCarryover(args.month, args.categoryId, args.enabled);
+      return { content: [{ type: 'text', text: `${args.enabled ? 'Enabled' : 'Disabled'} carryover for category ${args.categoryId} in ${args.month}` }] };
+    }
+  );
+
+  // Move Budget Funds
+  registerWriteTool(
+    'move-budget-funds',
+    {
+      title: 'Move Budget Funds',
+      description: 'Move budgeted money from one category to another for a month and report before/after balances',
+      inputSchema: {
+        month: monthSchema.describe('Budget month YYYY-MM'),
+        fromCategoryId: nonEmptyString,
+        toCategoryId: nonEmptyString,
+        amount: positiveAmountSchema.describe('Positive amount to move, as "12.34" or integer hundredths (1234)'),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      const result = await actualClient.moveBudgetFunds(args.month, args.fromCategoryId, args.toCategoryId, args.amount, isDryRun(args.dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Cover Overspending
+  registerWriteTool(
+    'cover-overspending',
+    {
+      title: 'Cover Overspending',
+      description: 'Propose moves from categories with a surplus into every overspent category for a month; applies them only when confirm is true',
+      inputSchema: {
+        month: monthSchema.describe('Budget month YYYY-MM'),
+        confirm: z.boolean().default(false).describe('Set true to apply the proposed moves'),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      const result = await actualClient.coverOverspending(args.month, args.confirm && !isDryRun(args.dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Get Schedules
+  server.registerTool(
+    'get-schedules',
+    {
+      title: 'Get Schedules',
+      description: 'List scheduled (recurring) transactions with their next date, amount, account and payee, paged',
+      inputSchema: {
+        ...paginationShape
+      }
+    },
+    async args => {
+      const schedules = await actualClient.getSchedules();
+      return pageResult(paginate(schedules, args));
+    }
+  );
+
+  // Create Schedule
+  registerWriteTool(
+    'create-schedule',
+    {
+      title: 'Create Schedule',
+      description: 'Create a scheduled transaction (one-off or recurring)',
+      inputSchema: {
+        name: nonEmptyString.nullish(),
+        accountId: nonEmptyString,
+        payeeId: nonEmptyString.nullish(),
+        amount: scheduleAmountSchema,
+        amountOp: scheduleAmountOpSchema.default('isapprox'),
+        date: scheduleDateSchema,
+        postsTransaction: z.boolean().nullish().describe('Automatically post the transaction when due; defaults to false'),
+        ...dryRunShape
+      }
+    },
+    async ({ dryRun, ...args }) => {
+      if (isDryRun(dryRun)) {
+        await resolveReferences([['account', args.accountId], ['payee', args.payeeId]]);
+        return previewResult('create-schedule', [createDiff('schedule', args)]);
+      }
+      const id = await actualClient.createSchedule(args);
+      return { content: [{ type: 'text', text: `Created schedule ${id}` }] };
+    }
+  );
+
+  // Update Schedule
+  registerWriteTool(
+    'update-schedule',
+    {
+      title: 'Update Schedule',
+      description: 'Update a scheduled transaction',
+      inputSchema: {
+        scheduleId: nonEmptyString,
+        name: nonEmptyString.nullish(),
+        accountId: nonEmptyString.nullish(),
+        payeeId: nonEmptyString.nullish(),
+        amount: scheduleAmountSchema.nullish(),
+        amountOp: scheduleAmountOpSchema.nullish(),
+        date: scheduleDateSchema.nullish(),
+        postsTransaction: z.boolean().nullish(),
+        resetNextDate: z.boolean().nullish().describe('Recalculate the next occurrence from the new recurrence'),
+        ...dryRunShape
+      }
+    },
+    async ({ scheduleId, resetNextDate, dryRun, ...update }) => {
+      if (isDryRun(dryRun)) {
+        await resolveReferences([['account', update.accountId], ['payee', update.payeeId]]);
+        return previewResult('update-schedule', [await updateDiff('schedule', scheduleId, scheduleFields(update))]);
+      }
+      await actualClient.updateSchedule(scheduleId, update, resetNextDate);
+      return { content: [{ type: 'text', text: `Updated schedule ${scheduleId}` }] };
+    }
+  );
+
+  // Delete Schedule
+  registerWriteTool(
+    'delete-schedule',
+    {
+      title: 'Delete Schedule',
+      description: 'Delete a scheduled transaction',
+      inputSchema: { scheduleId: nonEmptyString, ...dryRunShape }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) return previewResult('delete-schedule', [await deleteDiff('schedule', args.scheduleId)]);
+      await actualClient.deleteSchedule(args.scheduleId);
+      return { content: [{ type: 'text', text: `Deleted schedule ${args.scheduleId}` }] };
+    }
+  );
+
+  // Skip Next Occurrence
+  registerWriteTool(
+    'skip-next-occurrence',
+    {
+      title: 'Skip Next Occurrence',
+      description: 'Skip the next occurrence of a scheduled transaction',
+      inputSchema: { scheduleId: nonEmptyString, ...dryRunShape }
+    },
+    async args => {
+      if (isDryRun(args.dryRun)) {
+        const nextDate = await actualClient.previewSkipNextOccurrence(args.scheduleId);
+        return previewResult('skip-next-occurrence', [await updateDiff('schedule', args.scheduleId, { next_date: nextDate })]);
+      }
+      const nextDate = await actualClient.skipNextScheduleOccurrence(args.scheduleId);
+      return { content: [{ type: 'text', text: `Skipped next occurrence of schedule ${args.scheduleId}; next date is now ${nextDate ?? 'unknown'}` }] };
+    }
+  );
+
   // Generate Financial Insights
   server.registerTool(
     'generate-financial-insights',
-    { title: 'Generate Financial Insights', description: 'Summarize financial insights' },
-    async () => {
-      const insights = await actualClient.generateFinancialInsights();
+    {
+      title: 'Generate Financial Insights',
+      description: 'Summarize income, spending, top categories and uncategorized transactions for a period (default: last full month). Transfers and off-budget accounts are excluded unless requested',
+      inputSchema: {
+        range: dateRangeSchema.nullish().describe('Named range, e.g. last-month (default), this-month, ytd, last-90-days, 2026-Q2, 2026-03'),
+        ...reportScopeShape
+      }
+    },
+    async args => {
+      const insights = await actualClient.generateFinancialInsights(args.range != null ? resolveDateRange(args.range) : undefined, args);
       return { content: [{ type: 'text', text: insights }] };
     }
   );
@@ -433,15 +1306,20 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
     'generate-budget-review',
     {
       title: 'Generate Budget Review',
-      description: 'Analyze budget performance for a given month',
+      description: 'Compare budgeted amounts with actual spending per category and group for a month; flags overspent categories, unused envelopes and repeated overspending',
       inputSchema: {
         year: z.number(),
         month: z.number().describe('1-12')
       }
     },
     async args => {
-      const review = await actualClient.generateBudgetReview(args.year, args.month);
-      return { content: [{ type: 'text', text: review }] };
+      const { summary, ...review } = await actualClient.generateBudgetReview(args.year, args.month);
+      return {
+        content: [
+          { type: 'text', text: summary },
+          { type: 'text', text: JSON.stringify(withFormattedAmounts(review), null, 2) }
+        ]
+      };
     }
   );
 
@@ -450,26 +1328,73 @@ export const registerTools = (server: McpServer, actualClient: ActualClient): vo
     'get-monthly-summary',
     {
       title: 'Get Monthly Summary',
-      description: 'Get income/expense/savings summary for a month',
+      description: 'Get income/expense/savings summary for a month (year and month) or any named range. Transfers and off-budget accounts are excluded unless requested',
       inputSchema: {
-        year: z.number(),
-        month: z.number().describe('1-12')
+        year: z.number().nullish(),
+        month: z.number().nullish().describe('1-12'),
+        range: dateRangeSchema.nullish().describe('Instead of year/month: e.g. last-month, ytd, last-90-days, 2026-Q2, 2026-03'),
+        ...reportScopeShape
       }
     },
     async args => {
-      const summary = await actualClient.getMonthlySummary(args.year, args.month);
-      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+      if (args.range != null) {
+        const { startDate, endDate, label } = resolveDateRange(args.range);
+        return jsonResult({ period: label, startDate, endDate, ...await actualClient.getSummary(startDate, endDate, args) });
+      }
+      if (args.year == null || args.month == null) {
+        return { content: [{ type: 'text', text: 'Provide year and month, or a range' }], isError: true };
+      }
+      const summary = await actualClient.getMonthlySummary(args.year, args.month, args);
+      return jsonResult(summary);
     }
   );
 
-  // Apply Budget Changes
+  // List Recent Changes
   server.registerTool(
+    'list-recent-changes',
+    {
+      title: 'List Recent Changes',
+      description: 'Journal of changes made through this server (transactions including transfers, imports and reconciliations, accounts, categories, payees, rules, schedules and budget amounts), newest first, with the previous state and inverse operation. Kept in memory since the server started',
+      inputSchema: {
+        ...paginationShape,
+        limit: paginationShape.limit.default(20),
+        includeUndone: z.boolean().default(false)
+      }
+    },
+    async args => {
+      const changes = actualClient.listRecentChanges(args.includeUndone);
+      return pageResult(paginate(changes, args));
+    }
+  );
+
+  // Undo Change
+  registerWriteTool(
+    'undo-change',
+    {
+      title: 'Undo Change',
+      description: 'Revert a journaled change by applying its inverse operation. Deleted transactions (with splits), accounts (with their transactions), categories, payees, rules and schedules are recreated with new IDs and their transactions reassigned; budget amounts, carryover flags and schedule dates are set back to their previous values. Refuses when a later change touched the same entity unless force is set',
+      inputSchema: {
+        changeId: nonEmptyString.describe('ID from list-recent-changes'),
+        force: z.boolean().default(false),
+        ...dryRunShape
+      }
+    },
+    async args => {
+      const result = await actualClient.undoChange(args.changeId, args.force, isDryRun(args.dryRun));
+      return jsonResult(result);
+    }
+  );
+
+  // Apply Budget Changes
+  registerWriteTool(
     'apply-budget-changes',
     {
       title: 'Apply Budget Changes',
-      description: 'Flush local changes and sync the budget back to the Actual server'
+      description: 'Flush local changes and sync the budget back to the Actual server',
+      inputSchema: { ...dryRunShape }
     },
-    async () => {
+    async ({ dryRun }) => {
+      if (isDryRun(dryRun)) return previewResult('apply-budget-changes', []);
       await actualClient.shutdown();
       return { content: [{ type: 'text', text: 'Budget changes flushed and synced to the Actual server.' }] };
     }